@@ -0,0 +1,98 @@
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-response";
+import { recordAuditEvent } from "@/lib/audit";
+import { withAuth } from "@/lib/auth";
+import { createOptionsHandler } from "@/lib/cors";
+import { errorMessage } from "@/lib/saga";
+import {
+  buildReconcileReport,
+  purgeOrphan,
+  repairOrphan,
+  type ReconcileOutcome,
+  type ReconcileReport,
+} from "@/lib/user-provisioning";
+import { validateBody } from "@/lib/validation";
+import { z } from "zod";
+
+// Schemas
+const reconcileActionSchema = z.object({
+  action: z.enum(["repair", "purge"]),
+  ids: z.array(z.string().uuid()).min(1).max(500),
+});
+
+// Types
+interface ReconcileResult {
+  id: string;
+  outcome: ReconcileOutcome;
+  // Profile fields a repair could not rebuild
+  lost?: string[];
+  error?: string;
+}
+
+// Route handlers
+// Lists auth users without a profile and profiles without an auth user
+export const GET = withAuth({ roles: ["admin"] }, async (request, { t }) => {
+  try {
+    const report = await buildReconcileReport();
+    return createSuccessResponse<ReconcileReport>(report);
+  } catch (error) {
+    console.error("Reconcile report error:", error);
+    return createErrorResponse("INTERNAL_ERROR", t("INTERNAL_ERROR"));
+  }
+});
+
+// Repairs or purges the listed orphans. Ids that are no longer orphaned
+// when the request runs are skipped. Purging is refused when not every
+// profile could be read.
+export const POST = withAuth(
+  { roles: ["admin"] },
+  async (request, { auth, t }) => {
+    try {
+      const validation = await validateBody(request, reconcileActionSchema);
+      if (!validation.success) {
+        return validation.response;
+      }
+      const { action, ids } = validation.data;
+
+      const report = await buildReconcileReport();
+      if (action === "purge" && !report.complete) {
+        return createErrorResponse(
+          "CONFLICT",
+          t("users.reconcile.incompleteReport")
+        );
+      }
+      const results: ReconcileResult[] = [];
+      for (const id of ids) {
+        try {
+          const outcome =
+            action === "repair"
+              ? await repairOrphan(report, id)
+              : await purgeOrphan(report, id);
+          const lost =
+            outcome === "repaired"
+              ? report.authUsersWithoutProfile.find((user) => user.id === id)
+                  ?.lost
+              : undefined;
+          results.push(lost?.length ? { id, outcome, lost } : { id, outcome });
+
+          if (outcome !== "skipped") {
+            await recordAuditEvent({
+              actorId: auth.userId,
+              action: `user.reconcile.${action}`,
+              targetId: id,
+            });
+          }
+        } catch (error) {
+          console.error(`Failed to ${action} orphaned user ${id}:`, error);
+          results.push({ id, outcome: "failed", error: errorMessage(error) });
+        }
+      }
+
+      return createSuccessResponse<ReconcileResult[]>(results);
+    } catch (error) {
+      console.error("Reconcile action error:", error);
+      return createErrorResponse("INTERNAL_ERROR", t("INTERNAL_ERROR"));
+    }
+  }
+);
+
+export const OPTIONS = createOptionsHandler({ GET, POST });
@@ -0,0 +1,32 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-response";
+import { getBearerToken, withAuth } from "@/lib/auth";
+import { createOptionsHandler } from "@/lib/cors";
+import { supabaseAdmin } from "@/lib/supabase";
+import { cookies } from "next/headers";
+
+// Route handlers
+// Only the current session is revoked; store accounts are shared between
+// devices, so other tablets stay logged in.
+export const POST = withAuth({}, async (request, { t }) => {
+  try {
+    const token = getBearerToken(request);
+    const { error } = token
+      ? await supabaseAdmin.auth.admin.signOut(token, "local")
+      : await createRouteHandlerClient({ cookies }).auth.signOut({
+          scope: "local",
+        });
+
+    if (error) {
+      console.error("Failed to revoke session:", error);
+      return createErrorResponse("INTERNAL_ERROR", t("auth.logoutFailed"));
+    }
+
+    return createSuccessResponse(undefined, { message: t("auth.loggedOut") });
+  } catch (error) {
+    console.error("Logout error:", error);
+    return createErrorResponse("INTERNAL_ERROR", t("INTERNAL_ERROR"));
+  }
+});
+
+export const OPTIONS = createOptionsHandler({ POST });
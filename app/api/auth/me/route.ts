@@ -0,0 +1,27 @@
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-response";
+import { withAuth } from "@/lib/auth";
+import { createOptionsHandler } from "@/lib/cors";
+import { supabaseAdmin } from "@/lib/supabase";
+import { USER_PROFILE_COLUMNS, type UserProfile } from "@/lib/users";
+
+// Route handlers
+export const GET = withAuth({}, async (request, { auth, t }) => {
+  try {
+    const { data: profile, error } = await supabaseAdmin
+      .from("Profiles")
+      .select(USER_PROFILE_COLUMNS)
+      .eq("id", auth.userId)
+      .single();
+
+    if (error || !profile) {
+      return createErrorResponse("NOT_FOUND", t("users.notFound"));
+    }
+
+    return createSuccessResponse<UserProfile>(profile);
+  } catch (error) {
+    console.error("Server error:", error);
+    return createErrorResponse("INTERNAL_ERROR", t("INTERNAL_ERROR"));
+  }
+});
+
+export const OPTIONS = createOptionsHandler({ GET });
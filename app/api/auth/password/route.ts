@@ -0,0 +1,109 @@
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-response";
+import { withAuth } from "@/lib/auth";
+import { createOptionsHandler } from "@/lib/cors";
+import {
+  checkPassword,
+  describePasswordIssue,
+  passwordSchema,
+} from "@/lib/password-policy";
+import { createRateLimitedResponse, createRateLimiter } from "@/lib/rate-limit";
+import { createAnonClient, supabaseAdmin } from "@/lib/supabase";
+import { validateBody } from "@/lib/validation";
+import { z } from "zod";
+
+// Schemas
+const changePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1),
+    newPassword: passwordSchema,
+  })
+  .superRefine(({ currentPassword, newPassword }, ctx) => {
+    const current = { current: currentPassword };
+    if (checkPassword(newPassword, current).includes("reused")) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["newPassword"],
+        ...describePasswordIssue("reused"),
+      });
+    }
+  });
+
+// Types
+type ChangePasswordRequest = z.infer<typeof changePasswordSchema>;
+
+// Wrong current passwords are limited like failed logins, so a stolen
+// session cannot be used to guess the password
+const confirmLimiter = createRateLimiter({
+  freeHits: 5,
+  windowMs: 15 * 60 * 1000,
+  baseDelayMs: 1000,
+  lockoutHits: 10,
+  lockoutMs: 15 * 60 * 1000,
+});
+
+// Helper functions
+// Signs in on a throwaway client and revokes that session straight away
+const isCurrentPassword = async (email: string, password: string) => {
+  const client = createAnonClient();
+  const { error } = await client.auth.signInWithPassword({ email, password });
+  if (error) {
+    return false;
+  }
+  await client.auth.signOut({ scope: "local" });
+  return true;
+};
+
+// Route handlers
+export const POST = withAuth({}, async (request, { auth, t }) => {
+  try {
+    const validation = await validateBody(request, changePasswordSchema);
+    if (!validation.success) {
+      return validation.response;
+    }
+    const { currentPassword, newPassword }: ChangePasswordRequest =
+      validation.data;
+
+    const limitKey = `password:account:${auth.userId}`;
+    const limit = await confirmLimiter.consume(limitKey);
+    if (!limit.allowed) {
+      return createRateLimitedResponse(t, limit.retryAfterSeconds);
+    }
+
+    const { data: authUser, error: userError } =
+      await supabaseAdmin.auth.admin.getUserById(auth.userId);
+    if (userError || !authUser.user.email) {
+      return createErrorResponse("NOT_FOUND", t("users.notFound"));
+    }
+
+    if (!(await isCurrentPassword(authUser.user.email, currentPassword))) {
+      return createErrorResponse("VALIDATION_FAILED", t("VALIDATION_FAILED"), [
+        {
+          field: "currentPassword",
+          message: t("auth.currentPasswordIncorrect"),
+        },
+      ]);
+    }
+    await confirmLimiter.reset(limitKey);
+
+    const { error: updateError } =
+      await supabaseAdmin.auth.admin.updateUserById(auth.userId, {
+        password: newPassword,
+      });
+    if (updateError) {
+      console.error("Failed to change password:", updateError);
+      return createErrorResponse(
+        "INTERNAL_ERROR",
+        t("auth.passwordChangeFailed")
+      );
+    }
+
+    return createSuccessResponse(undefined, {
+      message: t("auth.passwordChanged"),
+    });
+  } catch (error) {
+    console.error("Password change error:", error);
+    return createErrorResponse("INTERNAL_ERROR", t("INTERNAL_ERROR"));
+  }
+});
+
+export const OPTIONS = createOptionsHandler({ POST });
@@ -0,0 +1,50 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-response";
+import { toSessionTokens, type SessionTokens } from "@/lib/auth";
+import { createOptionsHandler } from "@/lib/cors";
+import { getTranslator } from "@/lib/i18n";
+import { validateBody } from "@/lib/validation";
+import { cookies } from "next/headers";
+import { z } from "zod";
+
+// Schemas
+// Cookie sessions may omit refreshToken, or send no body at all; the one
+// in the cookie is used.
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1).optional(),
+});
+
+// Types
+type RefreshRequest = z.infer<typeof refreshSchema>;
+
+// Route handlers
+export async function POST(request: Request) {
+  const t = getTranslator(request);
+  try {
+    const validation = await validateBody(request, refreshSchema, {
+      allowEmpty: true,
+    });
+    if (!validation.success) {
+      return validation.response;
+    }
+    const { refreshToken }: RefreshRequest = validation.data;
+
+    // Supabase rotates the refresh token: the old one stops working once
+    // the new pair has been issued
+    const supabase = createRouteHandlerClient({ cookies });
+    const { data, error } = await supabase.auth.refreshSession(
+      refreshToken ? { refresh_token: refreshToken } : undefined
+    );
+
+    if (error || !data.session) {
+      return createErrorResponse("AUTH_REQUIRED", t("auth.refreshFailed"));
+    }
+
+    return createSuccessResponse<SessionTokens>(toSessionTokens(data.session));
+  } catch (error) {
+    console.error("Token refresh error:", error);
+    return createErrorResponse("INTERNAL_ERROR", t("INTERNAL_ERROR"));
+  }
+}
+
+export const OPTIONS = createOptionsHandler({ POST });
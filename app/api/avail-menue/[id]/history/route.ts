@@ -0,0 +1,55 @@
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-response";
+import { withAuth } from "@/lib/auth";
+import { createOptionsHandler } from "@/lib/cors";
+import {
+  historyQuerySchema,
+  listMenuChanges,
+  type MenuChangeResponse,
+} from "@/lib/menu-history";
+import type { Page } from "@/lib/pagination";
+import { prisma } from "@/lib/prisma";
+import { validateQuery } from "@/lib/validation";
+import { z } from "zod";
+
+// Schemas
+const menuIdSchema = z.coerce.number().int().positive();
+
+// Route handlers
+// Changes to the master item, newest first. Archived items keep their
+// history.
+export const GET = withAuth<{ id: string }>(
+  { roles: ["admin", "group_manager"] },
+  async (request, { params, t }) => {
+    try {
+      const menuId = menuIdSchema.safeParse(params.id);
+      if (!menuId.success) {
+        return createErrorResponse("NOT_FOUND", t("availMenu.notFound"));
+      }
+
+      const query = validateQuery(request, historyQuerySchema);
+      if (!query.success) {
+        return query.response;
+      }
+
+      const item = await prisma.menuItem.findUnique({
+        where: { menu_id: menuId.data },
+        select: { menu_id: true },
+      });
+      if (!item) {
+        return createErrorResponse("NOT_FOUND", t("availMenu.notFound"));
+      }
+
+      return createSuccessResponse<Page<MenuChangeResponse>>(
+        await listMenuChanges(menuId.data, null, query.data)
+      );
+    } catch (error) {
+      console.error("Failed to fetch menu history:", error);
+      return createErrorResponse(
+        "INTERNAL_ERROR",
+        t("menuHistory.fetchFailed")
+      );
+    }
+  }
+);
+
+export const OPTIONS = createOptionsHandler({ GET });
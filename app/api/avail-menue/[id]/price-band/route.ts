@@ -0,0 +1,27 @@
+import { createOptionsHandler } from "@/lib/cors";
+import { createPriceBandHandlers } from "@/lib/price-band-routes";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+
+// Schemas
+const menuIdSchema = z.coerce.number().int().positive();
+
+// Route handlers
+// The item's own band. Stores in a group with a band and no item band use
+// the group's instead. Archived items cannot get a new band.
+const handlers = createPriceBandHandlers({
+  target: (params: { id: string }) => {
+    const menuId = menuIdSchema.safeParse(params.id);
+    return menuId.success ? { menu_id: menuId.data } : null;
+  },
+  ownerExists: async ({ menu_id }) =>
+    (await prisma.menuItem.count({ where: { menu_id, archived_at: null } })) >
+    0,
+  ownerNotFound: "availMenu.notFound",
+});
+
+export const GET = handlers.GET;
+export const PUT = handlers.PUT;
+export const DELETE = handlers.DELETE;
+
+export const OPTIONS = createOptionsHandler({ GET, PUT, DELETE });
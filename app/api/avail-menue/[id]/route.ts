@@ -0,0 +1,294 @@
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-response";
+import { withAuth } from "@/lib/auth";
+import {
+  createStaleVersionResponse,
+  getExpectedVersion,
+  isCurrentVersion,
+  withEtag,
+} from "@/lib/concurrency";
+import { createOptionsHandler } from "@/lib/cors";
+import {
+  MENU_ITEM_SELECT,
+  toMenuItemResponse,
+  type MenuItemResponse,
+  type MenuItemRow,
+} from "@/lib/menu";
+import {
+  diffFields,
+  MENU_ITEM_HISTORY_FIELDS,
+  recordMenuChange,
+  recordMenuChanges,
+} from "@/lib/menu-history";
+import {
+  applyDueChanges,
+  atQuerySchema,
+  findSchedulesInEffect,
+  resolveSchedules,
+} from "@/lib/menu-schedule";
+import { isUniqueViolation, prisma } from "@/lib/prisma";
+import { validateBody, validateQuery } from "@/lib/validation";
+import { z } from "zod";
+
+// Schemas
+const menuIdSchema = z.coerce.number().int().positive();
+
+const updateMenuItemSchema = z
+  .object({
+    name: z.string().trim().min(1).optional(),
+    isActive: z.boolean().optional(),
+    price: z.number().nonnegative().optional(),
+    description: z.string().nullable().optional(),
+    K: z.boolean().optional(),
+    other: z.string().nullable().optional(),
+    // Alternative to the If-Match header
+    version: z.string().min(1).optional(),
+  })
+  .refine((body) => Object.keys(body).some((key) => key !== "version"), {
+    message: "validation.noFieldsToUpdate",
+  });
+
+// Types
+type UpdateMenuItemRequest = z.infer<typeof updateMenuItemSchema>;
+
+type UpdateOutcome =
+  { status: "missing" } | { status: "stale" | "updated"; item: MenuItemRow };
+
+// Route handlers
+// Archived items are only visible to admins. Price and availability are
+// the effective ones at ?at= (default now).
+export const GET = withAuth<{ id: string }>(
+  { roles: ["admin", "group_manager", "store"] },
+  async (request, { auth, params, t }) => {
+    try {
+      const menuId = menuIdSchema.safeParse(params.id);
+      if (!menuId.success) {
+        return createErrorResponse("NOT_FOUND", t("availMenu.notFound"));
+      }
+
+      const query = validateQuery(request, atQuerySchema);
+      if (!query.success) {
+        return query.response;
+      }
+      const at = query.data.at ?? new Date();
+
+      const [item, menuCsv, schedules] = await Promise.all([
+        prisma.menuItem.findUnique({
+          where: { menu_id: menuId.data },
+          select: MENU_ITEM_SELECT,
+        }),
+        prisma.menuCsv.findUnique({
+          where: { menu_system_code: menuId.data.toString() },
+          select: { menu_code: true },
+        }),
+        findSchedulesInEffect(null, at, [menuId.data]),
+      ]);
+
+      if (!item || (item.archived_at && auth.role !== "admin")) {
+        return createErrorResponse("NOT_FOUND", t("availMenu.notFound"));
+      }
+
+      const response = resolveSchedules(
+        toMenuItemResponse(item, menuCsv?.menu_code),
+        schedules.get(menuId.data),
+        at
+      );
+      return withEtag(
+        createSuccessResponse<MenuItemResponse>(response),
+        response.version
+      );
+    } catch (error) {
+      console.error("Database error:", error);
+      return createErrorResponse("INTERNAL_ERROR", t("availMenu.fetchFailed"));
+    }
+  }
+);
+
+// Locks the row, checks it is still active and still at the version the
+// caller expects, and updates it in one transaction, so no concurrent write
+// can slip in between. Due scheduled changes are written first, and the
+// change is recorded in the same transaction.
+export const PUT = withAuth<{ id: string }>(
+  { roles: ["admin"] },
+  async (request, { auth, params, t }) => {
+    try {
+      const menuId = menuIdSchema.safeParse(params.id);
+      if (!menuId.success) {
+        return createErrorResponse("NOT_FOUND", t("availMenu.notFound"));
+      }
+
+      const validation = await validateBody(request, updateMenuItemSchema);
+      if (!validation.success) {
+        return validation.response;
+      }
+      const body: UpdateMenuItemRequest = validation.data;
+      const expectedVersion = getExpectedVersion(request, body.version);
+
+      const [outcome, menuCsv] = await Promise.all([
+        prisma.$transaction(async (tx): Promise<UpdateOutcome> => {
+          const locked = await tx.$queryRaw<{ menu_id: number }[]>`
+            SELECT "menu_id" FROM "MenuItem"
+            WHERE "menu_id" = ${menuId.data} AND "archived_at" IS NULL
+            FOR UPDATE`;
+          if (locked.length === 0) {
+            return { status: "missing" };
+          }
+          const current = await tx.menuItem.findUniqueOrThrow({
+            where: { menu_id: menuId.data },
+            select: MENU_ITEM_SELECT,
+          });
+          if (
+            expectedVersion !== undefined &&
+            !isCurrentVersion(expectedVersion, current.updated_at)
+          ) {
+            return { status: "stale", item: current };
+          }
+
+          const now = new Date();
+          await applyDueChanges(tx, null, [menuId.data], now);
+          const before = await tx.menuItem.findUniqueOrThrow({
+            where: { menu_id: menuId.data },
+            select: MENU_ITEM_SELECT,
+          });
+          const item = await tx.menuItem.update({
+            where: { menu_id: menuId.data },
+            data: {
+              ...(body.name !== undefined && { name: body.name }),
+              ...(body.isActive !== undefined && { status: body.isActive }),
+              ...(body.price !== undefined && { price: body.price }),
+              ...(body.description !== undefined && {
+                description: body.description,
+              }),
+              ...(body.K !== undefined && { K: body.K }),
+              ...(body.other !== undefined && { other: body.other }),
+              updated_at: now,
+            },
+            select: MENU_ITEM_SELECT,
+          });
+          await recordMenuChange(tx, {
+            menuId: item.menu_id,
+            storeId: null,
+            actorId: auth.userId,
+            action: "update",
+            changes: diffFields(before, item, MENU_ITEM_HISTORY_FIELDS),
+          });
+          return { status: "updated", item };
+        }),
+        prisma.menuCsv.findUnique({
+          where: { menu_system_code: menuId.data.toString() },
+          select: { menu_code: true },
+        }),
+      ]);
+
+      if (outcome.status === "missing") {
+        return createErrorResponse("NOT_FOUND", t("availMenu.notFound"));
+      }
+
+      const item = toMenuItemResponse(outcome.item, menuCsv?.menu_code);
+      if (outcome.status === "stale") {
+        return createStaleVersionResponse(t, item, item.version);
+      }
+      return withEtag(
+        createSuccessResponse<MenuItemResponse>(item),
+        item.version
+      );
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return createErrorResponse("CONFLICT", t("availMenu.nameTaken"));
+      }
+      console.error("Update error:", error);
+      return createErrorResponse("INTERNAL_ERROR", t("availMenu.updateFailed"));
+    }
+  }
+);
+
+// Soft delete: the item is archived, not removed, so store menus and
+// history that refer to it stay intact. It is taken off sale in every store
+// in the same transaction, and its open schedules are cancelled so none
+// can bring it back.
+export const DELETE = withAuth<{ id: string }>(
+  { roles: ["admin"] },
+  async (request, { auth, params, t }) => {
+    try {
+      const menuId = menuIdSchema.safeParse(params.id);
+      if (!menuId.success) {
+        return createErrorResponse("NOT_FOUND", t("availMenu.notFound"));
+      }
+
+      const archived = await prisma.$transaction(async (tx) => {
+        const locked = await tx.$queryRaw<{ menu_id: number }[]>`
+          SELECT "menu_id" FROM "MenuItem"
+          WHERE "menu_id" = ${menuId.data} AND "archived_at" IS NULL
+          FOR UPDATE`;
+        if (locked.length === 0) {
+          return false;
+        }
+        const current = await tx.menuItem.findUniqueOrThrow({
+          where: { menu_id: menuId.data },
+          select: MENU_ITEM_SELECT,
+        });
+
+        const now = new Date();
+        const item = await tx.menuItem.update({
+          where: { menu_id: menuId.data },
+          data: { archived_at: now, status: false },
+          select: MENU_ITEM_SELECT,
+        });
+        await recordMenuChange(tx, {
+          menuId: item.menu_id,
+          storeId: null,
+          actorId: auth.userId,
+          action: "archive",
+          changes: diffFields(current, item, MENU_ITEM_HISTORY_FIELDS),
+        });
+
+        // Store writes share-lock the master row locked above, so none can
+        // run alongside this, and later ones see the item as archived
+        const onSale = await tx.storeMenuItem.findMany({
+          where: { menu_id: menuId.data, status: true },
+          select: { store_id: true },
+        });
+        if (onSale.length > 0) {
+          await tx.storeMenuItem.updateMany({
+            where: { menu_id: menuId.data, status: true },
+            data: { status: false, updated_at: now },
+          });
+          await recordMenuChanges(
+            tx,
+            onSale.map(({ store_id }) => ({
+              menuId: menuId.data,
+              storeId: store_id,
+              actorId: auth.userId,
+              action: "archive" as const,
+              changes: { status: { from: true, to: false } },
+            }))
+          );
+        }
+        await tx.menuSchedule.updateMany({
+          where: {
+            menu_id: menuId.data,
+            applied_at: null,
+            cancelled_at: null,
+          },
+          data: { cancelled_at: now },
+        });
+        return true;
+      });
+
+      if (!archived) {
+        return createErrorResponse("NOT_FOUND", t("availMenu.notFound"));
+      }
+
+      return createSuccessResponse(undefined, {
+        message: t("availMenu.archived"),
+      });
+    } catch (error) {
+      console.error("Archive error:", error);
+      return createErrorResponse(
+        "INTERNAL_ERROR",
+        t("availMenu.archiveFailed")
+      );
+    }
+  }
+);
+
+export const OPTIONS = createOptionsHandler({ GET, PUT, DELETE });
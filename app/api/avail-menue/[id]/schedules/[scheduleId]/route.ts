@@ -0,0 +1,43 @@
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-response";
+import { withAuth } from "@/lib/auth";
+import { createOptionsHandler } from "@/lib/cors";
+import { cancelSchedule } from "@/lib/menu-schedule";
+import { z } from "zod";
+
+// Schemas
+const idSchema = z.coerce.number().int().positive();
+
+// Route handlers
+// Cancels a change that is not due yet, or ends an availability window
+export const DELETE = withAuth<{ id: string; scheduleId: string }>(
+  { roles: ["admin"] },
+  async (request, { params, t }) => {
+    try {
+      const menuId = idSchema.safeParse(params.id);
+      const scheduleId = idSchema.safeParse(params.scheduleId);
+      if (!menuId.success || !scheduleId.success) {
+        return createErrorResponse("NOT_FOUND", t("menuSchedules.notFound"));
+      }
+
+      const outcome = await cancelSchedule(menuId.data, null, scheduleId.data);
+      if (outcome === "notFound") {
+        return createErrorResponse("NOT_FOUND", t("menuSchedules.notFound"));
+      }
+      if (outcome === "inEffect") {
+        return createErrorResponse("CONFLICT", t("menuSchedules.inEffect"));
+      }
+
+      return createSuccessResponse(undefined, {
+        message: t("menuSchedules.cancelled"),
+      });
+    } catch (error) {
+      console.error("Failed to cancel menu schedule:", error);
+      return createErrorResponse(
+        "INTERNAL_ERROR",
+        t("menuSchedules.cancelFailed")
+      );
+    }
+  }
+);
+
+export const OPTIONS = createOptionsHandler({ DELETE });
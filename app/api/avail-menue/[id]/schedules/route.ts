@@ -0,0 +1,88 @@
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-response";
+import { withAuth } from "@/lib/auth";
+import { createOptionsHandler } from "@/lib/cors";
+import {
+  createSchedule,
+  createScheduleSchema,
+  listOpenSchedules,
+  toMenuScheduleResponse,
+  type MenuScheduleResponse,
+} from "@/lib/menu-schedule";
+import { prisma } from "@/lib/prisma";
+import { validateBody } from "@/lib/validation";
+import { z } from "zod";
+
+// Schemas
+const menuIdSchema = z.coerce.number().int().positive();
+
+// Route handlers
+// Schedules of the master item that are pending or in effect, soonest first
+export const GET = withAuth<{ id: string }>(
+  { roles: ["admin", "group_manager"] },
+  async (request, { params, t }) => {
+    try {
+      const menuId = menuIdSchema.safeParse(params.id);
+      if (!menuId.success) {
+        return createErrorResponse("NOT_FOUND", t("availMenu.notFound"));
+      }
+
+      const now = new Date();
+      const schedules = await listOpenSchedules(menuId.data, null, now);
+
+      return createSuccessResponse<MenuScheduleResponse[]>(
+        schedules.map((schedule) => toMenuScheduleResponse(schedule, now))
+      );
+    } catch (error) {
+      console.error("Failed to fetch menu schedules:", error);
+      return createErrorResponse(
+        "INTERNAL_ERROR",
+        t("menuSchedules.fetchFailed")
+      );
+    }
+  }
+);
+
+export const POST = withAuth<{ id: string }>(
+  { roles: ["admin"] },
+  async (request, { auth, params, t }) => {
+    try {
+      const menuId = menuIdSchema.safeParse(params.id);
+      if (!menuId.success) {
+        return createErrorResponse("NOT_FOUND", t("availMenu.notFound"));
+      }
+
+      const validation = await validateBody(request, createScheduleSchema);
+      if (!validation.success) {
+        return validation.response;
+      }
+
+      const item = await prisma.menuItem.findFirst({
+        where: { menu_id: menuId.data, archived_at: null },
+        select: { menu_id: true },
+      });
+      if (!item) {
+        return createErrorResponse("NOT_FOUND", t("availMenu.notFound"));
+      }
+
+      const schedule = await createSchedule(
+        menuId.data,
+        null,
+        auth.userId,
+        validation.data
+      );
+
+      return createSuccessResponse<MenuScheduleResponse>(
+        toMenuScheduleResponse(schedule, new Date()),
+        { message: t("menuSchedules.created"), status: 201 }
+      );
+    } catch (error) {
+      console.error("Failed to create menu schedule:", error);
+      return createErrorResponse(
+        "INTERNAL_ERROR",
+        t("menuSchedules.createFailed")
+      );
+    }
+  }
+);
+
+export const OPTIONS = createOptionsHandler({ GET, POST });
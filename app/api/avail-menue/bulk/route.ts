@@ -0,0 +1,163 @@
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-response";
+import { withAuth } from "@/lib/auth";
+import { createOptionsHandler } from "@/lib/cors";
+import {
+  bulkItemsSchema,
+  createBulkRejectedResponse,
+  findRejectedItems,
+  MENU_ITEM_SELECT,
+  toMenuItemResponse,
+  type BulkItemResult,
+  type BulkUpdateResult,
+  type MenuItemResponse,
+} from "@/lib/menu";
+import {
+  diffFields,
+  MENU_ITEM_HISTORY_FIELDS,
+  recordMenuChange,
+} from "@/lib/menu-history";
+import { applyDueChanges } from "@/lib/menu-schedule";
+import { prisma } from "@/lib/prisma";
+import { validateBody } from "@/lib/validation";
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+
+// Schemas
+const bulkUpdateSchema = bulkItemsSchema(
+  z
+    .object({
+      id: z.number().int().positive(),
+      price: z.number().nonnegative().optional(),
+      isActive: z.boolean().optional(),
+      K: z.boolean().optional(),
+      other: z.string().nullable().optional(),
+      // Optional optimistic concurrency check, as in PUT /api/avail-menue/[id]
+      version: z.string().min(1).optional(),
+    })
+    .refine(
+      (item) =>
+        Object.keys(item).some((key) => !["id", "version"].includes(key)),
+      { message: "validation.noFieldsToUpdate" }
+    )
+);
+
+// Types
+type BulkUpdateRequest = z.infer<typeof bulkUpdateSchema>;
+
+type MenuItemResult = BulkItemResult<MenuItemResponse>;
+
+// Large seasonal price changes can take a while to write
+const BULK_TRANSACTION_TIMEOUT_MS = 30_000;
+
+// Route handlers
+// Applies every change in one transaction. The rows are locked first, and
+// if any item is missing, archived or stale nothing is written and the
+// per-item results say which.
+export const PATCH = withAuth(
+  { roles: ["admin"] },
+  async (request, { auth, t }) => {
+    try {
+      const validation = await validateBody(request, bulkUpdateSchema);
+      if (!validation.success) {
+        return validation.response;
+      }
+      const { items }: BulkUpdateRequest = validation.data;
+      const ids = items.map((item) => item.id);
+
+      const [outcome, menuCsvs] = await Promise.all([
+        prisma.$transaction(
+          async (tx) => {
+            const locked = await tx.$queryRaw<
+              { menu_id: number; updated_at: Date }[]
+            >`
+            SELECT "menu_id", "updated_at" FROM "MenuItem"
+            WHERE "menu_id" IN (${Prisma.join(ids)}) AND "archived_at" IS NULL
+            FOR UPDATE`;
+            const versions = new Map(
+              locked.map((row) => [row.menu_id, row.updated_at])
+            );
+
+            const rejected = findRejectedItems(items, versions);
+            if (rejected.length === 0) {
+              const now = new Date();
+              await applyDueChanges(tx, null, ids, now);
+              const before = await tx.menuItem.findMany({
+                where: { menu_id: { in: ids } },
+                select: MENU_ITEM_SELECT,
+              });
+              for (const item of items) {
+                const updated = await tx.menuItem.update({
+                  where: { menu_id: item.id },
+                  data: {
+                    ...(item.price !== undefined && { price: item.price }),
+                    ...(item.isActive !== undefined && {
+                      status: item.isActive,
+                    }),
+                    ...(item.K !== undefined && { K: item.K }),
+                    ...(item.other !== undefined && { other: item.other }),
+                    updated_at: now,
+                  },
+                  select: MENU_ITEM_SELECT,
+                });
+                await recordMenuChange(tx, {
+                  menuId: item.id,
+                  storeId: null,
+                  actorId: auth.userId,
+                  action: "update",
+                  changes: diffFields(
+                    before.find((row) => row.menu_id === item.id)!,
+                    updated,
+                    MENU_ITEM_HISTORY_FIELDS
+                  ),
+                });
+              }
+            }
+
+            const rows = await tx.menuItem.findMany({
+              where: { menu_id: { in: ids } },
+              select: MENU_ITEM_SELECT,
+            });
+            return { rejected, rows };
+          },
+          { timeout: BULK_TRANSACTION_TIMEOUT_MS }
+        ),
+        prisma.menuCsv.findMany({
+          where: { menu_system_code: { in: ids.map(String) } },
+          select: { menu_system_code: true, menu_code: true },
+        }),
+      ]);
+
+      const menuCodes = new Map(
+        menuCsvs.map((csv) => [csv.menu_system_code, csv.menu_code])
+      );
+      const responseFor = (id: number) => {
+        const row = outcome.rows.find((candidate) => candidate.menu_id === id);
+        return row && toMenuItemResponse(row, menuCodes.get(String(id)));
+      };
+
+      if (outcome.rejected.length > 0) {
+        // Stale items carry the current state for the merge prompt
+        const results: MenuItemResult[] = outcome.rejected.map((result) =>
+          result.status === "stale"
+            ? { ...result, item: responseFor(result.id) }
+            : result
+        );
+        return createBulkRejectedResponse(t, results);
+      }
+
+      return createSuccessResponse<BulkUpdateResult<MenuItemResponse>>({
+        updated: items.length,
+        results: items.map(({ id }) => ({
+          id,
+          status: "updated",
+          item: responseFor(id),
+        })),
+      });
+    } catch (error) {
+      console.error("Bulk update error:", error);
+      return createErrorResponse("INTERNAL_ERROR", t("availMenu.updateFailed"));
+    }
+  }
+);
+
+export const OPTIONS = createOptionsHandler({ PATCH });
@@ -0,0 +1,77 @@
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-response";
+import { withAuth } from "@/lib/auth";
+import { createOptionsHandler } from "@/lib/cors";
+import {
+  propagateMenu,
+  propagationSchema,
+  type PropagationResult,
+} from "@/lib/menu-propagation";
+import { validateBody, validateQuery } from "@/lib/validation";
+import { z } from "zod";
+
+// Schemas
+const propagationQuerySchema = z.object({
+  dryRun: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+});
+
+// Route handlers
+// Pushes master items to the chosen stores and groups. With ?dryRun=true
+// the response is the diff that would be applied and nothing is written.
+export const POST = withAuth(
+  { roles: ["admin"] },
+  async (request, { auth, t }) => {
+    try {
+      const query = validateQuery(request, propagationQuerySchema);
+      if (!query.success) {
+        return query.response;
+      }
+      const validation = await validateBody(request, propagationSchema);
+      if (!validation.success) {
+        return validation.response;
+      }
+      const { dryRun } = query.data;
+
+      const outcome = await propagateMenu(validation.data, auth.userId, dryRun);
+      switch (outcome.status) {
+        case "unknownItems":
+          return createErrorResponse(
+            "VALIDATION_FAILED",
+            t("menuBulk.unknownItems"),
+            { menuIds: outcome.menuIds }
+          );
+        case "unknownStores":
+          return createErrorResponse(
+            "VALIDATION_FAILED",
+            t("propagation.unknownStores"),
+            { storeCodes: outcome.storeCodes }
+          );
+        case "noStores":
+          return createErrorResponse(
+            "VALIDATION_FAILED",
+            t("propagation.noStores")
+          );
+      }
+
+      const { result } = outcome;
+      return createSuccessResponse<PropagationResult>(
+        result,
+        dryRun
+          ? {}
+          : {
+              message: t("propagation.completed", {
+                created: result.created,
+                updated: result.updated,
+              }),
+            }
+      );
+    } catch (error) {
+      console.error("Menu propagation error:", error);
+      return createErrorResponse("INTERNAL_ERROR", t("propagation.failed"));
+    }
+  }
+);
+
+export const OPTIONS = createOptionsHandler({ POST });
@@ -1,155 +1,163 @@
-import { prisma } from "@/lib/prisma";
-import { NextResponse } from "next/server";
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-response";
+import { withAuth } from "@/lib/auth";
+import { withEtag } from "@/lib/concurrency";
+import { createOptionsHandler } from "@/lib/cors";
+import {
+  MENU_ITEM_SELECT,
+  toMenuItemResponse,
+  type MenuItemResponse,
+  type MenuItemRow,
+} from "@/lib/menu";
+import {
+  diffFields,
+  MENU_ITEM_HISTORY_FIELDS,
+  recordMenuChange,
+} from "@/lib/menu-history";
+import {
+  atQuerySchema,
+  findSchedulesInEffect,
+  resolveSchedules,
+} from "@/lib/menu-schedule";
+import { isUniqueViolation, prisma } from "@/lib/prisma";
+import { validateBody, validateQuery } from "@/lib/validation";
+import type { MenuCsv } from "@prisma/client";
+import { z } from "zod";
+
+// Schemas
+const listMenuItemsSchema = atQuerySchema.extend({
+  // Admins only; archived items are hidden from everyone else
+  includeArchived: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+});
+
+const createMenuItemSchema = z.object({
+  name: z.string().trim().min(1),
+  price: z.number().nonnegative(),
+  menuCode: z.string().trim().min(1).optional(),
+  isActive: z.boolean().optional(),
+  description: z.string().nullable().optional(),
+  K: z.boolean().optional(),
+  other: z.string().nullable().optional(),
+});
 
 // Types
-interface MenuItem {
-  menu_id: number;
-  name: string;
-  price: number;
-  status: boolean;
-  description: string | null;
-  K: boolean;
-  other: string | null;
-}
-
-interface MenuCsv {
-  menu_system_code: string;
-  menu_code: string;
-}
-
-interface TransformedMenuItem {
-  id: number;
-  menu_code?: string;
-  name: string;
-  price: number;
-  isActive: boolean;
-  description: string | null;
-  K: boolean;
-  other: string | null;
-}
-
-interface UpdateMenuItemRequest {
-  name: string;
-  isActive?: boolean;
-  price?: number;
-  K?: boolean;
-  other?: string | null;
-}
-
-interface ErrorResponse {
-  error: string;
-}
-
-interface SuccessResponse {
-  success: boolean;
-  updatedCount?: number;
-  data?: TransformedMenuItem[];
-}
-
-// Helper functions
-const createErrorResponse = (message: string, status: number): NextResponse => {
-  return NextResponse.json({ error: message } as ErrorResponse, { status });
-};
-
-const createSuccessResponse = (data: SuccessResponse): NextResponse => {
-  return NextResponse.json(data);
-};
+type CreateMenuItemRequest = z.infer<typeof createMenuItemSchema>;
 
 // Route handlers
-export async function GET() {
-  try {
-    const [menuItems, menuCsvs] = await Promise.all([
-      prisma.menuItem.findMany({
-        orderBy: {
-          menu_id: "asc",
-        },
-        select: {
-          menu_id: true,
-          name: true,
-          price: true,
-          status: true,
-          description: true,
-          K: true,
-          other: true,
-        },
-      }),
-      prisma.menuCsv.findMany({
-        select: {
-          menu_system_code: true,
-          menu_code: true,
-        },
-      }),
-    ]);
-
-    const transformedItems: TransformedMenuItem[] = menuItems.map(
-      (item: MenuItem) => ({
-        id: item.menu_id,
-        menu_code: menuCsvs.find(
-          (csv: MenuCsv) => csv.menu_system_code === item.menu_id.toString()
-        )?.menu_code,
-        name: item.name,
-        price: Number(item.price),
-        isActive: item.status,
-        description: item.description,
-        K: item.K,
-        other: item.other,
-      })
-    );
-
-    return createSuccessResponse({
-      success: true,
-      data: transformedItems,
-    });
-  } catch (error) {
-    console.error("Database error:", error);
-    return createErrorResponse("Error fetching available menu items", 500);
+// Price and availability are the effective ones at ?at= (default now)
+export const GET = withAuth(
+  { roles: ["admin", "group_manager", "store"] },
+  async (request, { auth, t }) => {
+    try {
+      const validation = validateQuery(request, listMenuItemsSchema);
+      if (!validation.success) {
+        return validation.response;
+      }
+      const includeArchived =
+        validation.data.includeArchived && auth.role === "admin";
+      const at = validation.data.at ?? new Date();
+
+      const [menuItems, menuCsvs, schedules] = await Promise.all([
+        prisma.menuItem.findMany({
+          where: includeArchived ? {} : { archived_at: null },
+          orderBy: {
+            menu_id: "asc",
+          },
+          select: MENU_ITEM_SELECT,
+        }),
+        prisma.menuCsv.findMany({
+          select: {
+            menu_system_code: true,
+            menu_code: true,
+          },
+        }),
+        findSchedulesInEffect(null, at),
+      ]);
+
+      const transformedItems: MenuItemResponse[] = menuItems.map(
+        (item: MenuItemRow) =>
+          resolveSchedules(
+            toMenuItemResponse(
+              item,
+              menuCsvs.find(
+                (csv: Pick<MenuCsv, "menu_system_code" | "menu_code">) =>
+                  csv.menu_system_code === item.menu_id.toString()
+              )?.menu_code
+            ),
+            schedules.get(item.menu_id),
+            at
+          )
+      );
+
+      return createSuccessResponse<MenuItemResponse[]>(transformedItems);
+    } catch (error) {
+      console.error("Database error:", error);
+      return createErrorResponse("INTERNAL_ERROR", t("availMenu.fetchFailed"));
+    }
   }
-}
-
-export async function PUT(request: Request) {
-  try {
-    const body = (await request.json()) as UpdateMenuItemRequest;
-
-    // Run existence check and update in parallel
-    const [existingItem, updatedItem] = await Promise.all([
-      prisma.menuItem.findFirst({
-        where: { name: body.name },
-      }),
-      prisma.menuItem.updateMany({
-        where: { name: body.name },
-        data: {
-          ...(body.isActive !== undefined && { status: body.isActive }),
-          ...(body.price !== undefined && { price: body.price }),
-          ...(body.K !== undefined && { K: body.K }),
-          ...(body.other !== undefined && {
-            other: body.other,
-          }),
-          updated_at: new Date(),
-        },
-      }),
-    ]);
-
-    if (!existingItem || updatedItem.count === 0) {
-      return createErrorResponse("Available menu item not found", 404);
+);
+
+// Creates a master menu item together with its MenuCsv code mapping
+export const POST = withAuth(
+  { roles: ["admin"] },
+  async (request, { auth, t }) => {
+    try {
+      const validation = await validateBody(request, createMenuItemSchema);
+      if (!validation.success) {
+        return validation.response;
+      }
+      const body: CreateMenuItemRequest = validation.data;
+
+      const created = await prisma.$transaction(async (tx) => {
+        const item = await tx.menuItem.create({
+          data: {
+            name: body.name,
+            price: body.price,
+            ...(body.isActive !== undefined && { status: body.isActive }),
+            ...(body.description !== undefined && {
+              description: body.description,
+            }),
+            ...(body.K !== undefined && { K: body.K }),
+            ...(body.other !== undefined && { other: body.other }),
+          },
+          select: MENU_ITEM_SELECT,
+        });
+        await recordMenuChange(tx, {
+          menuId: item.menu_id,
+          storeId: null,
+          actorId: auth.userId,
+          action: "create",
+          changes: diffFields(null, item, MENU_ITEM_HISTORY_FIELDS),
+        });
+        if (body.menuCode) {
+          await tx.menuCsv.create({
+            data: {
+              menu_system_code: item.menu_id.toString(),
+              menu_code: body.menuCode,
+            },
+          });
+        }
+        return item;
+      });
+
+      const item = toMenuItemResponse(created, body.menuCode);
+      return withEtag(
+        createSuccessResponse<MenuItemResponse>(item, {
+          message: t("availMenu.created"),
+          status: 201,
+        }),
+        item.version
+      );
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return createErrorResponse("CONFLICT", t("availMenu.nameTaken"));
+      }
+      console.error("Create error:", error);
+      return createErrorResponse("INTERNAL_ERROR", t("availMenu.createFailed"));
     }
-
-    return createSuccessResponse({
-      success: true,
-      updatedCount: updatedItem.count,
-    });
-  } catch (error) {
-    console.error("Update error:", error);
-    return createErrorResponse("Error updating available menu item", 500);
   }
-}
+);
 
-export async function OPTIONS() {
-  return new NextResponse(null, {
-    status: 204,
-    headers: {
-      "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "GET, PUT, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type, Authorization",
-    },
-  });
-}
+export const OPTIONS = createOptionsHandler({ GET, POST });
@@ -0,0 +1,25 @@
+import { canAccessGroup } from "@/lib/auth";
+import { createOptionsHandler } from "@/lib/cors";
+import { createPriceBandHandlers } from "@/lib/price-band-routes";
+import { groupIdSchema } from "@/lib/groups";
+import { prisma } from "@/lib/prisma";
+
+// Route handlers
+// The band for every item in the group's stores that has no band of its
+// own. Group managers can read their own group's band.
+const handlers = createPriceBandHandlers({
+  target: (params: { groupId: string }) =>
+    groupIdSchema.safeParse(params.groupId).success
+      ? { group_id: params.groupId }
+      : null,
+  canRead: (auth, params) => canAccessGroup(auth, params.groupId),
+  ownerExists: async ({ group_id }) =>
+    (await prisma.group.count({ where: { id: group_id } })) > 0,
+  ownerNotFound: "groups.notFound",
+});
+
+export const GET = handlers.GET;
+export const PUT = handlers.PUT;
+export const DELETE = handlers.DELETE;
+
+export const OPTIONS = createOptionsHandler({ GET, PUT, DELETE });
@@ -0,0 +1,132 @@
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-response";
+import { canAccessGroup, withAuth } from "@/lib/auth";
+import { createOptionsHandler } from "@/lib/cors";
+import {
+  GROUP_COLUMNS,
+  groupIdSchema,
+  UNIQUE_VIOLATION,
+  type StoreGroup,
+} from "@/lib/groups";
+import { supabaseAdmin } from "@/lib/supabase";
+import { validateBody } from "@/lib/validation";
+import { z } from "zod";
+
+// Schemas
+const updateGroupSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  description: z.string().trim().nullable().optional(),
+});
+
+// Route handlers
+export const GET = withAuth<{ groupId: string }>(
+  { roles: ["admin", "group_manager"] },
+  async (request, { auth, params, t }) => {
+    try {
+      const { groupId } = params;
+      if (!groupIdSchema.safeParse(groupId).success) {
+        return createErrorResponse("NOT_FOUND", t("groups.notFound"));
+      }
+      if (!canAccessGroup(auth, groupId)) {
+        return createErrorResponse("FORBIDDEN", t("FORBIDDEN"));
+      }
+
+      const { data: group } = await supabaseAdmin
+        .from("Group")
+        .select(GROUP_COLUMNS)
+        .eq("id", groupId)
+        .maybeSingle();
+
+      if (!group) {
+        return createErrorResponse("NOT_FOUND", t("groups.notFound"));
+      }
+
+      return createSuccessResponse<StoreGroup>(group);
+    } catch (error) {
+      console.error("Server error:", error);
+      return createErrorResponse("INTERNAL_ERROR", t("INTERNAL_ERROR"));
+    }
+  }
+);
+
+export const PATCH = withAuth<{ groupId: string }>(
+  { roles: ["admin"] },
+  async (request, { params, t }) => {
+    try {
+      const { groupId } = params;
+      if (!groupIdSchema.safeParse(groupId).success) {
+        return createErrorResponse("NOT_FOUND", t("groups.notFound"));
+      }
+      const validation = await validateBody(request, updateGroupSchema);
+      if (!validation.success) {
+        return validation.response;
+      }
+
+      const { data: group, error } = await supabaseAdmin
+        .from("Group")
+        .update({ ...validation.data, updated_at: new Date().toISOString() })
+        .eq("id", groupId)
+        .select(GROUP_COLUMNS)
+        .maybeSingle();
+
+      if (error?.code === UNIQUE_VIOLATION) {
+        return createErrorResponse("CONFLICT", t("groups.nameTaken"));
+      }
+      if (error) {
+        return createErrorResponse("INTERNAL_ERROR", t("groups.updateFailed"));
+      }
+      if (!group) {
+        return createErrorResponse("NOT_FOUND", t("groups.notFound"));
+      }
+
+      return createSuccessResponse<StoreGroup>(group);
+    } catch (error) {
+      console.error("Server error:", error);
+      return createErrorResponse("INTERNAL_ERROR", t("INTERNAL_ERROR"));
+    }
+  }
+);
+
+// Only empty groups can be deleted, so no store silently loses its group
+export const DELETE = withAuth<{ groupId: string }>(
+  { roles: ["admin"] },
+  async (request, { params, t }) => {
+    try {
+      const { groupId } = params;
+      if (!groupIdSchema.safeParse(groupId).success) {
+        return createErrorResponse("NOT_FOUND", t("groups.notFound"));
+      }
+
+      const { count, error: countError } = await supabaseAdmin
+        .from("Profiles")
+        .select("id", { count: "exact", head: true })
+        .eq("group_id", groupId);
+
+      if (countError) {
+        return createErrorResponse("INTERNAL_ERROR", t("groups.deleteFailed"));
+      }
+      if (count) {
+        return createErrorResponse("CONFLICT", t("groups.notEmpty", { count }));
+      }
+
+      const { data: deleted, error } = await supabaseAdmin
+        .from("Group")
+        .delete()
+        .eq("id", groupId)
+        .select("id");
+
+      if (error) {
+        return createErrorResponse("INTERNAL_ERROR", t("groups.deleteFailed"));
+      }
+      if (deleted.length === 0) {
+        return createErrorResponse("NOT_FOUND", t("groups.notFound"));
+      }
+
+      return createSuccessResponse();
+    } catch (error) {
+      console.error("Server error:", error);
+      return createErrorResponse("INTERNAL_ERROR", t("INTERNAL_ERROR"));
+    }
+  }
+);
+
+export const OPTIONS = createOptionsHandler({ GET, PATCH, DELETE });
@@ -0,0 +1,72 @@
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-response";
+import { withAuth } from "@/lib/auth";
+import { createOptionsHandler } from "@/lib/cors";
+import { GROUP_COLUMNS, UNIQUE_VIOLATION, type StoreGroup } from "@/lib/groups";
+import { supabaseAdmin } from "@/lib/supabase";
+import { validateBody } from "@/lib/validation";
+import { z } from "zod";
+
+// Schemas
+const createGroupSchema = z.object({
+  name: z.string().trim().min(1),
+  description: z.string().trim().nullable().optional(),
+});
+
+// Route handlers
+// Admins see every group, group managers only their own
+export const GET = withAuth(
+  { roles: ["admin", "group_manager"] },
+  async (request, { auth, t }) => {
+    try {
+      let query = supabaseAdmin.from("Group").select(GROUP_COLUMNS);
+      if (auth.role === "group_manager") {
+        if (!auth.groupId) {
+          return createSuccessResponse<StoreGroup[]>([]);
+        }
+        query = query.eq("id", auth.groupId);
+      }
+
+      const { data: groups, error } = await query.order("name");
+      if (error) {
+        return createErrorResponse("INTERNAL_ERROR", t("groups.fetchFailed"));
+      }
+
+      return createSuccessResponse<StoreGroup[]>(groups);
+    } catch (error) {
+      console.error("Server error:", error);
+      return createErrorResponse("INTERNAL_ERROR", t("INTERNAL_ERROR"));
+    }
+  }
+);
+
+export const POST = withAuth({ roles: ["admin"] }, async (request, { t }) => {
+  try {
+    const validation = await validateBody(request, createGroupSchema);
+    if (!validation.success) {
+      return validation.response;
+    }
+
+    const { data: group, error } = await supabaseAdmin
+      .from("Group")
+      .insert([validation.data])
+      .select(GROUP_COLUMNS)
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      return createErrorResponse("CONFLICT", t("groups.nameTaken"));
+    }
+    if (error || !group) {
+      return createErrorResponse("INTERNAL_ERROR", t("groups.createFailed"));
+    }
+
+    return createSuccessResponse<StoreGroup>(group, {
+      message: t("groups.created"),
+      status: 201,
+    });
+  } catch (error) {
+    console.error("Server error:", error);
+    return createErrorResponse("INTERNAL_ERROR", t("INTERNAL_ERROR"));
+  }
+});
+
+export const OPTIONS = createOptionsHandler({ GET, POST });
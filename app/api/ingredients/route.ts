@@ -1,100 +1,79 @@
-import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
-import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-response";
+import { resolveStoreScope, withAuth } from "@/lib/auth";
+import { createOptionsHandler } from "@/lib/cors";
+import { commaSeparated, isoDate, validateQuery } from "@/lib/validation";
+import type { Ingredient } from "@prisma/client";
+import { z } from "zod";
+
+// Schemas
+const MAX_WEEK_DATES = 31;
+
+const ingredientsQuerySchema = z.object({
+  weekDates: commaSeparated(
+    z
+      .array(isoDate)
+      .min(1, "ingredients.weekDatesRequired")
+      .max(MAX_WEEK_DATES, "ingredients.tooManyWeekDates")
+  ),
+  // Admins and group managers pick the store; store users may omit it
+  storeCode: z.string().trim().min(1).optional(),
+});
 
 // Types
-interface Ingredient {
-  ingredient_id: number;
-  material_system_code: string;
-  name: string;
+// Supabase returns the date column as YYYY-MM-DD and numeric as a number
+type IngredientResponse = Pick<
+  Ingredient,
+  "ingredient_id" | "material_system_code" | "name"
+> & {
   date: string;
   quantity: number;
-}
-
-interface ErrorResponse {
-  error: string;
-}
-
-interface SuccessResponse {
-  success: boolean;
-  data?: Ingredient[];
-}
-
-// Helper functions
-const createErrorResponse = (message: string, status: number): NextResponse => {
-  return NextResponse.json({ error: message } as ErrorResponse, { status });
-};
-
-const createSuccessResponse = (data: SuccessResponse): NextResponse => {
-  return NextResponse.json(data);
 };
 
 // Route handlers
-export async function GET(request: Request) {
-  try {
-    const supabase = createRouteHandlerClient({ cookies });
-    const { searchParams } = new URL(request.url);
-    const weekDates = searchParams.get("weekDates")?.split(",") || [];
+export const GET = withAuth(
+  { roles: ["admin", "group_manager", "store"] },
+  async (request, { auth, t }) => {
+    try {
+      const validation = validateQuery(request, ingredientsQuerySchema);
+      if (!validation.success) {
+        return validation.response;
+      }
+      const { weekDates, storeCode } = validation.data;
 
-    if (!weekDates.length) {
-      return createErrorResponse(
-        "Please provide week dates to fetch ingredients",
-        400
-      );
-    }
-
-    const { data: session } = await supabase.auth.getSession();
-    if (!session) {
-      return createErrorResponse(
-        "Authentication required. Please log in to continue.",
-        401
-      );
-    }
+      const scope = await resolveStoreScope(auth, storeCode, t);
+      if (!scope.success) {
+        return scope.response;
+      }
+      const { supabase, companyCode } = scope.store;
 
-    const storeId = session.session?.user?.user_metadata?.company_code;
-
-    const { data: ingredients, error } = await supabase
-      .from("Ingredient")
-      .select(
-        `
+      const { data: ingredients, error } = await supabase
+        .from("Ingredient")
+        .select(
+          `
         ingredient_id,
         material_system_code,
         name,
         date,
         quantity
       `
-      )
-      .eq("store_id", storeId)
-      .in("date", weekDates);
+        )
+        .eq("store_id", companyCode)
+        .in("date", weekDates);
 
-    if (error) {
-      console.error("Failed to fetch ingredients:", error);
-      return createErrorResponse(
-        "Unable to fetch ingredients. Please try again later.",
-        500
-      );
-    }
+      if (error) {
+        console.error("Failed to fetch ingredients:", error);
+        return createErrorResponse(
+          "INTERNAL_ERROR",
+          t("ingredients.fetchFailed")
+        );
+      }
 
-    return createSuccessResponse({
-      success: true,
-      data: ingredients || [],
-    });
-  } catch (error) {
-    console.error("Failed to process ingredients request:", error);
-    return createErrorResponse(
-      "An unexpected error occurred while fetching ingredients",
-      500
-    );
+      return createSuccessResponse<IngredientResponse[]>(ingredients || []);
+    } catch (error) {
+      console.error("Failed to process ingredients request:", error);
+      return createErrorResponse("INTERNAL_ERROR", t("ingredients.unexpected"));
+    }
   }
-}
+);
 
-export async function OPTIONS() {
-  return new NextResponse(null, {
-    status: 204,
-    headers: {
-      "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "GET, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type, Authorization",
-    },
-  });
-}
+export const OPTIONS = createOptionsHandler({ GET });
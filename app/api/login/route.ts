@@ -1,70 +1,144 @@
 import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
-import { NextResponse } from "next/server";
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-response";
+import { toSessionTokens, type SessionTokens } from "@/lib/auth";
+import { createOptionsHandler } from "@/lib/cors";
+import { supabaseAdmin } from "@/lib/supabase";
+import {
+  findUserIdByCompanyCode,
+  findUserIdByEmail,
+} from "@/lib/user-provisioning";
+import { getTranslator } from "@/lib/i18n";
+import {
+  createRateLimitedResponse,
+  createRateLimiter,
+  getClientIp,
+} from "@/lib/rate-limit";
+import { validateBody } from "@/lib/validation";
 import { cookies } from "next/headers";
+import { z } from "zod";
+
+// Schemas
+// Stores log in with their company code or their contact email
+const loginSchema = z
+  .object({
+    companyCode: z.string().trim().min(1).optional(),
+    email: z.string().trim().toLowerCase().email().optional(),
+    password: z.string().min(1),
+  })
+  .refine(
+    (body) => (body.companyCode === undefined) !== (body.email === undefined),
+    {
+      message: "validation.companyCodeOrEmail",
+      path: ["companyCode"],
+    }
+  );
 
 // Types
-interface LoginRequest {
-  email: string;
-  password: string;
-}
+type LoginRequest = z.infer<typeof loginSchema>;
 
-interface LoginResponse {
+interface LoginResponse extends SessionTokens {
   companyCode: string;
-  token: string;
 }
 
-interface ErrorResponse {
-  error: string;
+interface LoginAccount {
+  userId: string | null;
+  email: string | null;
 }
 
+// Attempts are counted per client IP and per account before the password
+// is checked; a successful login takes its attempt back. Company codes are
+// easy to guess, so the account limit is the stricter one.
+const ipLimiter = createRateLimiter({
+  freeHits: 20,
+  windowMs: 15 * 60 * 1000,
+  baseDelayMs: 1000,
+  lockoutHits: 50,
+  lockoutMs: 60 * 60 * 1000,
+});
+
+const accountLimiter = createRateLimiter({
+  freeHits: 5,
+  windowMs: 15 * 60 * 1000,
+  baseDelayMs: 1000,
+  lockoutHits: 10,
+  lockoutMs: 15 * 60 * 1000,
+});
+
 // Helper functions
-const createErrorResponse = (message: string, status: number): NextResponse => {
-  return new NextResponse(JSON.stringify({ error: message } as ErrorResponse), {
-    status,
-    headers: {
-      "Content-Type": "application/json",
-      "Access-Control-Allow-Origin": "*",
-    },
-  });
+// The account to sign in to and its auth email. Company codes are
+// resolved through the CompanyCodeLogin table; unknown codes give no email.
+const resolveLoginAccount = async ({
+  companyCode,
+  email,
+}: LoginRequest): Promise<LoginAccount> => {
+  if (email) {
+    return { userId: await findUserIdByEmail(email), email };
+  }
+  const userId = await findUserIdByCompanyCode(companyCode!);
+  if (!userId) {
+    return { userId: null, email: null };
+  }
+  const { data } = await supabaseAdmin.auth.admin.getUserById(userId);
+  return { userId, email: data.user?.email ?? null };
 };
 
-const createSuccessResponse = (data: LoginResponse): NextResponse => {
-  return new NextResponse(JSON.stringify(data), {
-    status: 200,
-    headers: {
-      "Content-Type": "application/json",
-      "Access-Control-Allow-Origin": "*",
-    },
-  });
-};
+// Known accounts share one counter whichever identifier is used. Unknown
+// identifiers get their own, so a limit does not reveal that a code exists.
+const accountLimitKey = (body: LoginRequest, account: LoginAccount) =>
+  account.userId
+    ? `login:account:${account.userId}`
+    : body.email
+      ? `login:unknown:${body.email}`
+      : `login:unknown:code:${body.companyCode}`;
 
 // Route handlers
-export async function OPTIONS() {
-  return new NextResponse(null, {
-    headers: {
-      "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "POST, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type",
-    },
-  });
-}
-
 export async function POST(request: Request) {
+  const t = getTranslator(request);
   try {
     const supabase = createRouteHandlerClient({ cookies });
-    const { email, password } = (await request.json()) as LoginRequest;
+    const validation = await validateBody(request, loginSchema);
+    if (!validation.success) {
+      return validation.response;
+    }
+    const body: LoginRequest = validation.data;
+
+    const account = await resolveLoginAccount(body);
+    const ipKey = `login:ip:${getClientIp(request)}`;
+    const accountKey = accountLimitKey(body, account);
+    const limits = await Promise.all([
+      ipLimiter.consume(ipKey),
+      accountLimiter.consume(accountKey),
+    ]);
+    const retryAfterSeconds = Math.max(
+      0,
+      ...limits.map((limit) => (limit.allowed ? 0 : limit.retryAfterSeconds))
+    );
+    if (retryAfterSeconds > 0) {
+      return createRateLimitedResponse(t, retryAfterSeconds);
+    }
 
     // Authenticate user
-    const { data: authData, error: authError } =
-      await supabase.auth.signInWithPassword({
-        email,
-        password,
-      });
-
-    if (authError) {
-      return createErrorResponse("Authentication failed", 401);
+    // An unknown company code fails the same way as a wrong password
+    const signIn =
+      account.email &&
+      (await supabase.auth.signInWithPassword({
+        email: account.email,
+        password: body.password,
+      }));
+
+    if (!signIn || signIn.error) {
+      return createErrorResponse(
+        "INVALID_CREDENTIALS",
+        t("INVALID_CREDENTIALS")
+      );
     }
 
+    await Promise.all([
+      accountLimiter.reset(accountKey),
+      ipLimiter.refund(ipKey),
+    ]);
+    const authData = signIn.data;
+
     // Fetch user profile
     const { data: profile, error: profileError } = await supabase
       .from("Profiles")
@@ -73,15 +147,17 @@ export async function POST(request: Request) {
       .single();
 
     if (profileError || !profile?.company_code) {
-      return createErrorResponse("Company code not found", 404);
+      return createErrorResponse("NOT_FOUND", t("login.companyCodeNotFound"));
     }
 
-    return createSuccessResponse({
+    return createSuccessResponse<LoginResponse>({
       companyCode: profile.company_code,
-      token: authData.session.access_token,
+      ...toSessionTokens(authData.session),
     });
   } catch (error) {
     console.error("Login error:", error);
-    return createErrorResponse("Internal server error", 500);
+    return createErrorResponse("INTERNAL_ERROR", t("INTERNAL_ERROR"));
   }
 }
+
+export const OPTIONS = createOptionsHandler({ POST });
@@ -0,0 +1,57 @@
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-response";
+import { resolveStoreScope, withAuth } from "@/lib/auth";
+import { createOptionsHandler } from "@/lib/cors";
+import { storeQuerySchema } from "@/lib/menu";
+import {
+  historyQuerySchema,
+  listMenuChanges,
+  type MenuChangeResponse,
+} from "@/lib/menu-history";
+import type { Page } from "@/lib/pagination";
+import { validateQuery } from "@/lib/validation";
+import { z } from "zod";
+
+// Schemas
+// [id] is the menu_id of the master item
+const menuIdSchema = z.coerce.number().int().positive();
+
+const storeHistoryQuerySchema = storeQuerySchema.merge(historyQuerySchema);
+
+// Route handlers
+// Changes to one store's price and availability for the item, newest first
+export const GET = withAuth<{ id: string }>(
+  { roles: ["admin", "group_manager", "store"] },
+  async (request, { auth, params, t }) => {
+    try {
+      const menuId = menuIdSchema.safeParse(params.id);
+      if (!menuId.success) {
+        return createErrorResponse("NOT_FOUND", t("menuItems.notFound"));
+      }
+
+      const query = validateQuery(request, storeHistoryQuerySchema);
+      if (!query.success) {
+        return query.response;
+      }
+      const scope = await resolveStoreScope(auth, query.data.storeCode, t);
+      if (!scope.success) {
+        return scope.response;
+      }
+      const { storeId } = scope.store;
+      if (!storeId) {
+        return createErrorResponse("NOT_FOUND", t("store.profileNotFound"));
+      }
+
+      return createSuccessResponse<Page<MenuChangeResponse>>(
+        await listMenuChanges(menuId.data, storeId, query.data)
+      );
+    } catch (error) {
+      console.error("Failed to fetch menu history:", error);
+      return createErrorResponse(
+        "INTERNAL_ERROR",
+        t("menuHistory.fetchFailed")
+      );
+    }
+  }
+);
+
+export const OPTIONS = createOptionsHandler({ GET });
@@ -0,0 +1,259 @@
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-response";
+import { resolveStoreScope, withAuth } from "@/lib/auth";
+import {
+  createStaleVersionResponse,
+  getExpectedVersion,
+  isCurrentVersion,
+  withEtag,
+} from "@/lib/concurrency";
+import { createOptionsHandler } from "@/lib/cors";
+import {
+  STORE_MENU_ITEM_COLUMNS,
+  storeQuerySchema,
+  toStoreMenuItemResponse,
+  toStoreMenuItemRow,
+  type StoreMenuItemResponse,
+  type StoreMenuItemRow,
+} from "@/lib/menu";
+import {
+  diffFields,
+  recordMenuChange,
+  STORE_MENU_ITEM_HISTORY_FIELDS,
+} from "@/lib/menu-history";
+import {
+  applyDueChanges,
+  atQuerySchema,
+  findSchedulesInEffect,
+  resolveSchedules,
+} from "@/lib/menu-schedule";
+import { prisma } from "@/lib/prisma";
+import { checkStorePrice, findStorePricing } from "@/lib/price-band";
+import {
+  createValidationErrorResponse,
+  validateBody,
+  validateQuery,
+} from "@/lib/validation";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { StoreMenuItem } from "@prisma/client";
+import { z } from "zod";
+
+// Schemas
+// [id] is the menu_id of the master item
+const menuIdSchema = z.coerce.number().int().positive();
+
+const updateMenuItemSchema = z
+  .object({
+    isActive: z.boolean().optional(),
+    price: z.number().nonnegative().optional(),
+    // Alternative to the If-Match header
+    version: z.string().min(1).optional(),
+  })
+  .refine((body) => Object.keys(body).some((key) => key !== "version"), {
+    message: "validation.noFieldsToUpdate",
+  });
+
+const getMenuItemSchema = storeQuerySchema.merge(atQuerySchema);
+
+// Types
+type UpdateMenuItemRequest = z.infer<typeof updateMenuItemSchema>;
+
+type UpdateOutcome =
+  { status: "missing" } | { status: "stale" | "updated"; row: StoreMenuItem };
+
+// Helper functions
+const fetchStoreMenuItem = async (
+  supabase: SupabaseClient,
+  storeId: string,
+  groupId: string | null,
+  menuId: number,
+  at: Date
+): Promise<StoreMenuItemResponse | null> => {
+  const [{ data: item }, { data: menuCsv }, pricing] = await Promise.all([
+    supabase
+      .from("StoreMenuItem")
+      .select(STORE_MENU_ITEM_COLUMNS)
+      .eq("store_id", storeId)
+      .eq("menu_id", menuId)
+      .returns<StoreMenuItemRow[]>()
+      .maybeSingle(),
+    supabase
+      .from("MenuCsv")
+      .select("menu_code")
+      .eq("menu_system_code", menuId.toString())
+      .maybeSingle(),
+    findStorePricing(groupId, [menuId], at),
+  ]);
+  return item
+    ? toStoreMenuItemResponse(item, menuCsv?.menu_code, pricing.get(menuId))
+    : null;
+};
+
+// Route handlers
+// Price and availability are the effective ones at ?at= (default now)
+export const GET = withAuth<{ id: string }>(
+  { roles: ["admin", "group_manager", "store"] },
+  async (request, { auth, params, t }) => {
+    try {
+      const menuId = menuIdSchema.safeParse(params.id);
+      if (!menuId.success) {
+        return createErrorResponse("NOT_FOUND", t("menuItems.notFound"));
+      }
+
+      const query = validateQuery(request, getMenuItemSchema);
+      if (!query.success) {
+        return query.response;
+      }
+      const scope = await resolveStoreScope(auth, query.data.storeCode, t);
+      if (!scope.success) {
+        return scope.response;
+      }
+      const { supabase, storeId, groupId } = scope.store;
+      if (!storeId) {
+        return createErrorResponse("NOT_FOUND", t("store.profileNotFound"));
+      }
+
+      const at = query.data.at ?? new Date();
+      const [item, schedules] = await Promise.all([
+        fetchStoreMenuItem(supabase, storeId, groupId, menuId.data, at),
+        findSchedulesInEffect(storeId, at, [menuId.data]),
+      ]);
+      if (!item) {
+        return createErrorResponse("NOT_FOUND", t("menuItems.notFound"));
+      }
+
+      return withEtag(
+        createSuccessResponse<StoreMenuItemResponse>(
+          resolveSchedules(item, schedules.get(menuId.data), at)
+        ),
+        item.version
+      );
+    } catch (error) {
+      console.error("Failed to fetch menu item:", error);
+      return createErrorResponse("INTERNAL_ERROR", t("menuItems.fetchFailed"));
+    }
+  }
+);
+
+// Locks the store's row, checks it is still at the version the caller
+// expects, and updates it in one transaction together with its history
+// entry. Access to the store was checked by resolveStoreScope, and prices
+// outside the range HQ allows are rejected first. The response is the row
+// as written.
+export const PUT = withAuth<{ id: string }>(
+  { roles: ["admin", "group_manager", "store"] },
+  async (request, { auth, params, t }) => {
+    try {
+      const menuId = menuIdSchema.safeParse(params.id);
+      if (!menuId.success) {
+        return createErrorResponse("NOT_FOUND", t("menuItems.notFound"));
+      }
+
+      const query = validateQuery(request, storeQuerySchema);
+      if (!query.success) {
+        return query.response;
+      }
+      const scope = await resolveStoreScope(auth, query.data.storeCode, t);
+      if (!scope.success) {
+        return scope.response;
+      }
+      const { storeId, groupId } = scope.store;
+      if (!storeId) {
+        return createErrorResponse("NOT_FOUND", t("store.profileNotFound"));
+      }
+
+      const validation = await validateBody(request, updateMenuItemSchema);
+      if (!validation.success) {
+        return validation.response;
+      }
+      const body: UpdateMenuItemRequest = validation.data;
+      const expectedVersion = getExpectedVersion(request, body.version);
+
+      const pricing = (await findStorePricing(groupId, [menuId.data])).get(
+        menuId.data
+      );
+      const priceError = checkStorePrice(t, "price", body.price, pricing);
+      if (priceError) {
+        return createValidationErrorResponse(t, [priceError]);
+      }
+
+      const [outcome, menuCsv] = await Promise.all([
+        prisma.$transaction(async (tx): Promise<UpdateOutcome> => {
+          const where = {
+            store_id_menu_id: { store_id: storeId, menu_id: menuId.data },
+          };
+          // Items archived by HQ can no longer be changed
+          const locked = await tx.$queryRaw<{ menu_id: number }[]>`
+            SELECT "item"."menu_id" FROM "StoreMenuItem" AS "item"
+            JOIN "MenuItem" AS "master" ON "master"."menu_id" = "item"."menu_id"
+            WHERE "item"."store_id" = ${storeId}
+              AND "item"."menu_id" = ${menuId.data}
+              AND "master"."archived_at" IS NULL
+            FOR UPDATE OF "item" FOR SHARE OF "master"`;
+          if (locked.length === 0) {
+            return { status: "missing" };
+          }
+          const current = await tx.storeMenuItem.findUniqueOrThrow({ where });
+          if (
+            expectedVersion !== undefined &&
+            !isCurrentVersion(expectedVersion, current.updated_at)
+          ) {
+            return { status: "stale", row: current };
+          }
+
+          const now = new Date();
+          await applyDueChanges(tx, storeId, [menuId.data], now);
+          const before = await tx.storeMenuItem.findUniqueOrThrow({ where });
+          const row = await tx.storeMenuItem.update({
+            where,
+            data: {
+              ...(body.isActive !== undefined && { status: body.isActive }),
+              ...(body.price !== undefined && {
+                price: body.price,
+                price_override: true,
+              }),
+              updated_at: now,
+            },
+          });
+          await recordMenuChange(tx, {
+            menuId: menuId.data,
+            storeId,
+            actorId: auth.userId,
+            action: "update",
+            changes: diffFields(before, row, STORE_MENU_ITEM_HISTORY_FIELDS),
+          });
+          return { status: "updated", row };
+        }),
+        prisma.menuCsv.findUnique({
+          where: { menu_system_code: menuId.data.toString() },
+          select: { menu_code: true },
+        }),
+      ]);
+
+      if (outcome.status === "missing") {
+        return createErrorResponse("NOT_FOUND", t("menuItems.notFound"));
+      }
+
+      const item = toStoreMenuItemResponse(
+        toStoreMenuItemRow(outcome.row),
+        menuCsv?.menu_code,
+        pricing
+      );
+      if (outcome.status === "stale") {
+        return createStaleVersionResponse(t, item, item.version);
+      }
+
+      return withEtag(
+        createSuccessResponse<StoreMenuItemResponse>(item),
+        item.version
+      );
+    } catch (error) {
+      console.error("Failed to process menu item update:", error);
+      return createErrorResponse(
+        "INTERNAL_ERROR",
+        t("menuItems.updateUnexpected")
+      );
+    }
+  }
+);
+
+export const OPTIONS = createOptionsHandler({ GET, PUT });
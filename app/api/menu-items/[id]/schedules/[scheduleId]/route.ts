@@ -0,0 +1,62 @@
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-response";
+import { resolveStoreScope, withAuth } from "@/lib/auth";
+import { createOptionsHandler } from "@/lib/cors";
+import { storeQuerySchema } from "@/lib/menu";
+import { cancelSchedule } from "@/lib/menu-schedule";
+import { validateQuery } from "@/lib/validation";
+import { z } from "zod";
+
+// Schemas
+const idSchema = z.coerce.number().int().positive();
+
+// Route handlers
+// Cancels a change that is not due yet, or ends an availability window
+export const DELETE = withAuth<{ id: string; scheduleId: string }>(
+  { roles: ["admin", "group_manager", "store"] },
+  async (request, { auth, params, t }) => {
+    try {
+      const menuId = idSchema.safeParse(params.id);
+      const scheduleId = idSchema.safeParse(params.scheduleId);
+      if (!menuId.success || !scheduleId.success) {
+        return createErrorResponse("NOT_FOUND", t("menuSchedules.notFound"));
+      }
+
+      const query = validateQuery(request, storeQuerySchema);
+      if (!query.success) {
+        return query.response;
+      }
+      const scope = await resolveStoreScope(auth, query.data.storeCode, t);
+      if (!scope.success) {
+        return scope.response;
+      }
+      const { storeId } = scope.store;
+      if (!storeId) {
+        return createErrorResponse("NOT_FOUND", t("store.profileNotFound"));
+      }
+
+      const outcome = await cancelSchedule(
+        menuId.data,
+        storeId,
+        scheduleId.data
+      );
+      if (outcome === "notFound") {
+        return createErrorResponse("NOT_FOUND", t("menuSchedules.notFound"));
+      }
+      if (outcome === "inEffect") {
+        return createErrorResponse("CONFLICT", t("menuSchedules.inEffect"));
+      }
+
+      return createSuccessResponse(undefined, {
+        message: t("menuSchedules.cancelled"),
+      });
+    } catch (error) {
+      console.error("Failed to cancel menu schedule:", error);
+      return createErrorResponse(
+        "INTERNAL_ERROR",
+        t("menuSchedules.cancelFailed")
+      );
+    }
+  }
+);
+
+export const OPTIONS = createOptionsHandler({ DELETE });
@@ -0,0 +1,138 @@
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-response";
+import { resolveStoreScope, withAuth } from "@/lib/auth";
+import { createOptionsHandler } from "@/lib/cors";
+import { storeQuerySchema } from "@/lib/menu";
+import {
+  createSchedule,
+  createScheduleSchema,
+  listOpenSchedules,
+  toMenuScheduleResponse,
+  type MenuScheduleResponse,
+} from "@/lib/menu-schedule";
+import { prisma } from "@/lib/prisma";
+import { checkStorePrice, findStorePricing } from "@/lib/price-band";
+import {
+  createValidationErrorResponse,
+  validateBody,
+  validateQuery,
+} from "@/lib/validation";
+import { z } from "zod";
+
+// Schemas
+// [id] is the menu_id of the master item
+const menuIdSchema = z.coerce.number().int().positive();
+
+// Route handlers
+// Schedules of the store's entry that are pending or in effect, soonest
+// first
+export const GET = withAuth<{ id: string }>(
+  { roles: ["admin", "group_manager", "store"] },
+  async (request, { auth, params, t }) => {
+    try {
+      const menuId = menuIdSchema.safeParse(params.id);
+      if (!menuId.success) {
+        return createErrorResponse("NOT_FOUND", t("menuItems.notFound"));
+      }
+
+      const query = validateQuery(request, storeQuerySchema);
+      if (!query.success) {
+        return query.response;
+      }
+      const scope = await resolveStoreScope(auth, query.data.storeCode, t);
+      if (!scope.success) {
+        return scope.response;
+      }
+      const { storeId } = scope.store;
+      if (!storeId) {
+        return createErrorResponse("NOT_FOUND", t("store.profileNotFound"));
+      }
+
+      const now = new Date();
+      const schedules = await listOpenSchedules(menuId.data, storeId, now);
+
+      return createSuccessResponse<MenuScheduleResponse[]>(
+        schedules.map((schedule) => toMenuScheduleResponse(schedule, now))
+      );
+    } catch (error) {
+      console.error("Failed to fetch menu schedules:", error);
+      return createErrorResponse(
+        "INTERNAL_ERROR",
+        t("menuSchedules.fetchFailed")
+      );
+    }
+  }
+);
+
+export const POST = withAuth<{ id: string }>(
+  { roles: ["admin", "group_manager", "store"] },
+  async (request, { auth, params, t }) => {
+    try {
+      const menuId = menuIdSchema.safeParse(params.id);
+      if (!menuId.success) {
+        return createErrorResponse("NOT_FOUND", t("menuItems.notFound"));
+      }
+
+      const query = validateQuery(request, storeQuerySchema);
+      if (!query.success) {
+        return query.response;
+      }
+      const scope = await resolveStoreScope(auth, query.data.storeCode, t);
+      if (!scope.success) {
+        return scope.response;
+      }
+      const { storeId, groupId } = scope.store;
+      if (!storeId) {
+        return createErrorResponse("NOT_FOUND", t("store.profileNotFound"));
+      }
+
+      const validation = await validateBody(request, createScheduleSchema);
+      if (!validation.success) {
+        return validation.response;
+      }
+
+      const entry = await prisma.storeMenuItem.findUnique({
+        where: {
+          store_id_menu_id: { store_id: storeId, menu_id: menuId.data },
+        },
+        select: { menuItem: { select: { archived_at: true } } },
+      });
+      if (!entry || entry.menuItem.archived_at) {
+        return createErrorResponse("NOT_FOUND", t("menuItems.notFound"));
+      }
+
+      // Scheduled prices must be within the range HQ allows today
+      if (validation.data.type === "change") {
+        const pricing = await findStorePricing(groupId, [menuId.data]);
+        const priceError = checkStorePrice(
+          t,
+          "price",
+          validation.data.price,
+          pricing.get(menuId.data)
+        );
+        if (priceError) {
+          return createValidationErrorResponse(t, [priceError]);
+        }
+      }
+
+      const schedule = await createSchedule(
+        menuId.data,
+        storeId,
+        auth.userId,
+        validation.data
+      );
+
+      return createSuccessResponse<MenuScheduleResponse>(
+        toMenuScheduleResponse(schedule, new Date()),
+        { message: t("menuSchedules.created"), status: 201 }
+      );
+    } catch (error) {
+      console.error("Failed to create menu schedule:", error);
+      return createErrorResponse(
+        "INTERNAL_ERROR",
+        t("menuSchedules.createFailed")
+      );
+    }
+  }
+);
+
+export const OPTIONS = createOptionsHandler({ GET, POST });
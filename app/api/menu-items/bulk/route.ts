@@ -0,0 +1,221 @@
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-response";
+import { resolveStoreScope, withAuth } from "@/lib/auth";
+import { createOptionsHandler } from "@/lib/cors";
+import {
+  bulkItemsSchema,
+  createBulkRejectedResponse,
+  findRejectedItems,
+  storeQuerySchema,
+  toStoreMenuItemResponse,
+  toStoreMenuItemRow,
+  type BulkItemResult,
+  type BulkUpdateResult,
+  type StoreMenuItemResponse,
+} from "@/lib/menu";
+import {
+  diffFields,
+  recordMenuChange,
+  STORE_MENU_ITEM_HISTORY_FIELDS,
+} from "@/lib/menu-history";
+import { applyDueChanges } from "@/lib/menu-schedule";
+import { prisma } from "@/lib/prisma";
+import {
+  checkStorePrice,
+  findStorePricing,
+  type StorePricing,
+} from "@/lib/price-band";
+import {
+  createValidationErrorResponse,
+  validateBody,
+  validateQuery,
+} from "@/lib/validation";
+import { Prisma, type StoreMenuItem } from "@prisma/client";
+import { z } from "zod";
+
+// Schemas
+const bulkUpdateSchema = bulkItemsSchema(
+  z
+    .object({
+      // menu_id, as in PUT /api/menu-items/[id]
+      id: z.number().int().positive(),
+      isActive: z.boolean().optional(),
+      price: z.number().nonnegative().optional(),
+      version: z.string().min(1).optional(),
+    })
+    .refine(
+      (item) =>
+        Object.keys(item).some((key) => !["id", "version"].includes(key)),
+      { message: "validation.noFieldsToUpdate" }
+    )
+);
+
+// Types
+type BulkUpdateRequest = z.infer<typeof bulkUpdateSchema>;
+
+type StoreMenuItemResult = BulkItemResult<StoreMenuItemResponse>;
+
+const BULK_TRANSACTION_TIMEOUT_MS = 30_000;
+
+// Helper functions
+const toResponse = (
+  row: StoreMenuItem,
+  menuCodes: Map<string, string>,
+  pricing: Map<number, StorePricing>
+) =>
+  toStoreMenuItemResponse(
+    toStoreMenuItemRow(row),
+    menuCodes.get(String(row.menu_id)),
+    pricing.get(row.menu_id)
+  );
+
+// Route handlers
+// Changes many items of one store's menu in one transaction. The store is
+// checked through resolveStoreScope and the write goes through Prisma,
+// since Supabase's client has no multi-statement transactions.
+export const PATCH = withAuth(
+  { roles: ["admin", "group_manager", "store"] },
+  async (request, { auth, t }) => {
+    try {
+      const query = validateQuery(request, storeQuerySchema);
+      if (!query.success) {
+        return query.response;
+      }
+      const scope = await resolveStoreScope(auth, query.data.storeCode, t);
+      if (!scope.success) {
+        return scope.response;
+      }
+      const { storeId, groupId } = scope.store;
+      if (!storeId) {
+        return createErrorResponse("NOT_FOUND", t("store.profileNotFound"));
+      }
+
+      const validation = await validateBody(request, bulkUpdateSchema);
+      if (!validation.success) {
+        return validation.response;
+      }
+      const { items }: BulkUpdateRequest = validation.data;
+      const ids = items.map((item) => item.id);
+
+      // Prices outside the range HQ allows are rejected before anything
+      // is locked
+      const pricing = await findStorePricing(groupId, ids);
+      const priceErrors = items.flatMap(
+        (item, index) =>
+          checkStorePrice(
+            t,
+            `items.${index}.price`,
+            item.price,
+            pricing.get(item.id)
+          ) ?? []
+      );
+      if (priceErrors.length > 0) {
+        return createValidationErrorResponse(t, priceErrors);
+      }
+
+      const [outcome, menuCsvs] = await Promise.all([
+        prisma.$transaction(
+          async (tx) => {
+            const locked = await tx.$queryRaw<
+              { menu_id: number; updated_at: Date }[]
+            >`
+              SELECT "item"."menu_id", "item"."updated_at"
+              FROM "StoreMenuItem" AS "item"
+              JOIN "MenuItem" AS "master"
+                ON "master"."menu_id" = "item"."menu_id"
+              WHERE "item"."store_id" = ${storeId}
+                AND "item"."menu_id" IN (${Prisma.join(ids)})
+                AND "master"."archived_at" IS NULL
+              FOR UPDATE OF "item" FOR SHARE OF "master"`;
+            const versions = new Map(
+              locked.map((row) => [row.menu_id, row.updated_at])
+            );
+
+            const where = { store_id: storeId, menu_id: { in: ids } };
+            const rejected = findRejectedItems(items, versions);
+            if (rejected.length > 0) {
+              const rows = await tx.storeMenuItem.findMany({ where });
+              return { rejected, rows };
+            }
+
+            const now = new Date();
+            await applyDueChanges(tx, storeId, ids, now);
+            const before = await tx.storeMenuItem.findMany({ where });
+            for (const item of items) {
+              await tx.storeMenuItem.update({
+                where: {
+                  store_id_menu_id: { store_id: storeId, menu_id: item.id },
+                },
+                data: {
+                  ...(item.isActive !== undefined && {
+                    status: item.isActive,
+                  }),
+                  ...(item.price !== undefined && {
+                    price: item.price,
+                    price_override: true,
+                  }),
+                  updated_at: now,
+                },
+              });
+            }
+
+            const rows = await tx.storeMenuItem.findMany({ where });
+            for (const row of rows) {
+              await recordMenuChange(tx, {
+                menuId: row.menu_id,
+                storeId,
+                actorId: auth.userId,
+                action: "update",
+                changes: diffFields(
+                  before.find(
+                    (candidate) =>
+                      candidate.store_menu_item_id === row.store_menu_item_id
+                  )!,
+                  row,
+                  STORE_MENU_ITEM_HISTORY_FIELDS
+                ),
+              });
+            }
+            return { rejected, rows };
+          },
+          { timeout: BULK_TRANSACTION_TIMEOUT_MS }
+        ),
+        prisma.menuCsv.findMany({
+          where: { menu_system_code: { in: ids.map(String) } },
+          select: { menu_system_code: true, menu_code: true },
+        }),
+      ]);
+
+      const menuCodes = new Map(
+        menuCsvs.map((csv) => [csv.menu_system_code, csv.menu_code])
+      );
+      const responseFor = (id: number) => {
+        const row = outcome.rows.find((candidate) => candidate.menu_id === id);
+        return row && toResponse(row, menuCodes, pricing);
+      };
+
+      if (outcome.rejected.length > 0) {
+        // Stale items carry the current state for the merge prompt
+        const results: StoreMenuItemResult[] = outcome.rejected.map((result) =>
+          result.status === "stale"
+            ? { ...result, item: responseFor(result.id) }
+            : result
+        );
+        return createBulkRejectedResponse(t, results);
+      }
+
+      return createSuccessResponse<BulkUpdateResult<StoreMenuItemResponse>>({
+        updated: items.length,
+        results: items.map(({ id }) => ({
+          id,
+          status: "updated",
+          item: responseFor(id),
+        })),
+      });
+    } catch (error) {
+      console.error("Bulk store menu update error:", error);
+      return createErrorResponse("INTERNAL_ERROR", t("menuItems.updateFailed"));
+    }
+  }
+);
+
+export const OPTIONS = createOptionsHandler({ PATCH });
@@ -1,219 +1,146 @@
-import { createClient } from "@supabase/supabase-js";
-import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
-import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-response";
+import { recordAuditEvent } from "@/lib/audit";
+import { canManageProfile, ROLES, withAuth } from "@/lib/auth";
+import { createOptionsHandler } from "@/lib/cors";
+import type { MessageKey } from "@/lib/i18n";
+import { passwordSchema } from "@/lib/password-policy";
+import { errorMessage } from "@/lib/saga";
+import {
+  deprovisionUser,
+  fetchProfile,
+  updateUser,
+  type DeprovisionStep,
+  type UpdateStep,
+} from "@/lib/user-provisioning";
+import type { UserProfile } from "@/lib/users";
+import { validateBody } from "@/lib/validation";
+import { z } from "zod";
+
+// Schemas
+const updateUserSchema = z.object({
+  company_code: z.string().trim().min(1).optional(),
+  password: passwordSchema.optional(),
+  role: z.enum(ROLES).optional(),
+  store_name: z.string().trim().optional(),
+  group_id: z.string().uuid().nullable().optional(),
+  // null removes the contact email
+  email: z.string().trim().toLowerCase().email().nullable().optional(),
+});
 
 // Types
-interface UpdateUserRequest {
-  company_code?: string;
-  password?: string;
-  role?: string;
-  store_name?: string;
-  group?: string;
-}
-
-interface UserProfile {
-  id: string;
-  company_code: string;
-  role: string;
-  store_name: string | null;
-  group: string | null;
-}
-
-interface ErrorResponse {
-  error: string;
-  details?: string;
-}
-
-interface SuccessResponse {
-  success: boolean;
-  data?: UserProfile;
-}
-
-// Helper functions
-const createErrorResponse = (
-  message: string,
-  status: number,
-  details?: string
-): NextResponse => {
-  return NextResponse.json({ error: message, details } as ErrorResponse, {
-    status,
-  });
-};
+type UpdateUserRequest = z.infer<typeof updateUserSchema>;
 
-const createSuccessResponse = (data: SuccessResponse): NextResponse => {
-  return NextResponse.json(data);
+const DEPROVISION_ERRORS: Record<DeprovisionStep, MessageKey> = {
+  deleteCompanyCodeLogin: "users.loginDeleteFailed",
+  deleteProfile: "users.profileDeleteFailed",
+  deleteAuthUser: "users.deleteFailed",
 };
 
-// Ensure environment variables are set
-if (!process.env.NEXT_PUBLIC_SUPABASE_URL) {
-  throw new Error("Missing env.NEXT_PUBLIC_SUPABASE_URL");
-}
-if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
-  throw new Error("Missing env.SUPABASE_SERVICE_ROLE_KEY");
-}
-
-// Create Supabase admin client
-const supabaseAdmin = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL,
-  process.env.SUPABASE_SERVICE_ROLE_KEY,
-  {
-    auth: {
-      autoRefreshToken: false,
-      persistSession: false,
-      detectSessionInUrl: false,
-    },
-  }
-);
+const UPDATE_ERRORS: Record<UpdateStep, MessageKey> = {
+  updateProfile: "users.profileUpdateFailed",
+  updateCompanyCodeLogin: "users.loginUpdateFailed",
+  updateAuthUser: "users.credentialsUpdateFailed",
+};
 
 // Route handlers
-export async function DELETE(
-  request: Request,
-  { params }: { params: { userId: string } }
-) {
-  try {
-    const { userId } = params;
-
-    // Fetch the user to be deleted
-    const { data: userToDelete, error: fetchUserError } = await supabaseAdmin
-      .from("Profiles")
-      .select("role")
-      .eq("id", userId)
-      .single();
-
-    if (fetchUserError || !userToDelete) {
-      return createErrorResponse("ユーザーの取得に失敗しました", 404);
-    }
-
-    // Prevent deletion if the user is 'admin'
-    if (userToDelete.role === "admin") {
-      return createErrorResponse("本部ユーザーは削除できません", 403);
-    }
-
-    // Delete the user from Supabase Auth
-    const { error: authError } = await supabaseAdmin.auth.admin.deleteUser(
-      userId
-    );
+export const DELETE = withAuth<{ userId: string }>(
+  { roles: ["admin", "group_manager"] },
+  async (request, { auth, params, t }) => {
+    try {
+      const { userId } = params;
+
+      const userToDelete = await fetchProfile(userId);
+      if (!userToDelete) {
+        return createErrorResponse("NOT_FOUND", t("users.notFound"));
+      }
+      if (!canManageProfile(auth, userToDelete)) {
+        return createErrorResponse("FORBIDDEN", t("FORBIDDEN"));
+      }
 
-    if (authError) {
-      return createErrorResponse("ユーザーの削除に失敗しました", 500);
-    }
+      // Prevent deletion if the user is 'admin'
+      if (userToDelete.role === "admin") {
+        return createErrorResponse("FORBIDDEN", t("users.adminNotDeletable"));
+      }
 
-    // Delete the user's profile
-    const { error: profileError } = await supabaseAdmin
-      .from("Profiles")
-      .delete()
-      .eq("id", userId);
+      const result = await deprovisionUser(userToDelete);
+      if (!result.success) {
+        return createErrorResponse(
+          "INTERNAL_ERROR",
+          t(DEPROVISION_ERRORS[result.failedStep]),
+          errorMessage(result.error)
+        );
+      }
 
-    if (profileError) {
-      return createErrorResponse("プロフィールの削除に失敗しました", 500);
+      await recordAuditEvent({
+        actorId: auth.userId,
+        action: "user.delete",
+        targetId: userId,
+        details: {
+          company_code: userToDelete.company_code,
+          role: userToDelete.role,
+          store_name: userToDelete.store_name,
+        },
+      });
+
+      return createSuccessResponse();
+    } catch (error) {
+      console.error("Server error:", error);
+      return createErrorResponse(
+        "INTERNAL_ERROR",
+        t("INTERNAL_ERROR"),
+        error instanceof Error ? error.message : undefined
+      );
     }
-
-    return createSuccessResponse({ success: true });
-  } catch (error) {
-    console.error("Server error:", error);
-    return createErrorResponse(
-      "サーバーエラーが発生しました",
-      500,
-      error instanceof Error ? error.message : undefined
-    );
   }
-}
-
-export async function PATCH(
-  request: Request,
-  { params }: { params: { userId: string } }
-) {
-  try {
-    const { userId } = params;
-    const body = (await request.json()) as UpdateUserRequest;
-
-    // Initialize Supabase client with cookies
-    const supabase = createRouteHandlerClient({ cookies });
-    const {
-      data: { session },
-    } = await supabase.auth.getSession();
-
-    // Ensure the user is authenticated
-    if (!session) {
-      return createErrorResponse("認証が必要です", 401);
-    }
-
-    // Check if the current user has permission (is admin)
-    const { data: currentUser, error: fetchUserError } = await supabaseAdmin
-      .from("Profiles")
-      .select("role")
-      .eq("id", session.user.id)
-      .single();
+);
 
-    if (fetchUserError || !currentUser || currentUser.role !== "admin") {
-      return createErrorResponse("権限がありません", 403);
-    }
+export const PATCH = withAuth<{ userId: string }>(
+  { roles: ["admin", "group_manager"] },
+  async (request, { auth, params, t }) => {
+    try {
+      const { userId } = params;
+      const validation = await validateBody(request, updateUserSchema);
+      if (!validation.success) {
+        return validation.response;
+      }
+      const body: UpdateUserRequest = validation.data;
 
-    // Update auth user if email or password is provided
-    const authUpdateData: { email?: string; password?: string } = {};
-    if (body.company_code) {
-      authUpdateData.email = `${body.company_code}@example.com`;
-    }
-    if (body.password) {
-      authUpdateData.password = body.password;
-    }
+      const previous = await fetchProfile(userId);
+      if (!previous) {
+        return createErrorResponse("NOT_FOUND", t("users.notFound"));
+      }
 
-    if (Object.keys(authUpdateData).length > 0) {
-      const { error: updateAuthError } =
-        await supabaseAdmin.auth.admin.updateUserById(userId, authUpdateData);
+      // The caller must be allowed to manage the account both before and
+      // after the change, so group managers cannot move stores out of their
+      // group or promote them
+      const next = {
+        role: body.role ?? previous.role,
+        group_id:
+          body.group_id !== undefined ? body.group_id : previous.group_id,
+      };
+      if (!canManageProfile(auth, previous) || !canManageProfile(auth, next)) {
+        return createErrorResponse("FORBIDDEN", t("FORBIDDEN"));
+      }
 
-      if (updateAuthError) {
-        return createErrorResponse("認証情報の更新に失敗しました", 500);
+      const result = await updateUser(previous, body);
+      if (!result.success) {
+        return createErrorResponse(
+          "INTERNAL_ERROR",
+          t(UPDATE_ERRORS[result.failedStep]),
+          errorMessage(result.error)
+        );
       }
-    }
 
-    // Prepare update data for Profiles table
-    const updateData = {
-      company_code: body.company_code,
-      role: body.role,
-      store_name: body.role === "store" ? body.store_name : null,
-      group: body.group,
-    };
-
-    // Update user profile
-    const { data: updatedProfile, error: updateProfileError } =
-      await supabaseAdmin
-        .from("Profiles")
-        .update(updateData)
-        .eq("id", userId)
-        .select()
-        .single();
-
-    if (updateProfileError) {
+      return createSuccessResponse<UserProfile>(result.context.updated);
+    } catch (error) {
+      console.error("Server error:", error);
       return createErrorResponse(
-        "プロフィールの更新に失敗しました",
-        500,
-        updateProfileError.message
+        "INTERNAL_ERROR",
+        t("INTERNAL_ERROR"),
+        error instanceof Error ? error.message : undefined
       );
     }
-
-    return createSuccessResponse({
-      success: true,
-      data: updatedProfile,
-    });
-  } catch (error) {
-    console.error("Server error:", error);
-    return createErrorResponse(
-      "サーバーエラーが発生しました",
-      500,
-      error instanceof Error ? error.message : undefined
-    );
   }
-}
-
-export async function OPTIONS() {
-  return new NextResponse(null, {
-    status: 204,
-    headers: {
-      "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "PATCH, DELETE, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type, Authorization",
-    },
-  });
-}
+);
+
+export const OPTIONS = createOptionsHandler({ DELETE, PATCH });
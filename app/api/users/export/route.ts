@@ -0,0 +1,75 @@
+import { createCsvResponse, createErrorResponse } from "@/lib/api-response";
+import { withAuth } from "@/lib/auth";
+import { createOptionsHandler } from "@/lib/cors";
+import { toCsv } from "@/lib/csv";
+import { supabaseAdmin } from "@/lib/supabase";
+import type { UserProfile } from "@/lib/users";
+
+// Types
+interface ExportedUser extends Omit<UserProfile, "group_id"> {
+  // Group name, so the file can be edited and imported again
+  group: string | null;
+}
+
+interface ProfileWithGroup extends Omit<ExportedUser, "group"> {
+  group: { name: string } | null;
+}
+
+const EXPORT_COLUMNS: (keyof ExportedUser)[] = [
+  "id",
+  "company_code",
+  "role",
+  "store_name",
+  "group",
+  "email",
+];
+
+// Supabase returns at most 1000 rows per select
+const EXPORT_PAGE_SIZE = 1000;
+
+// Helper functions
+// Every profile, read a page at a time; null if any page fails
+const fetchAllProfiles = async (): Promise<ProfileWithGroup[] | null> => {
+  const users: ProfileWithGroup[] = [];
+  for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from("Profiles")
+      .select("id, company_code, role, store_name, email, group:Group(name)")
+      .order("company_code")
+      .order("id")
+      .range(from, from + EXPORT_PAGE_SIZE - 1)
+      .returns<ProfileWithGroup[]>();
+    if (error) {
+      console.error("Failed to fetch profiles for export:", error);
+      return null;
+    }
+    users.push(...data);
+    if (data.length < EXPORT_PAGE_SIZE) {
+      return users;
+    }
+  }
+};
+
+// Route handlers
+export const GET = withAuth({ roles: ["admin"] }, async (request, { t }) => {
+  try {
+    const users = await fetchAllProfiles();
+    if (!users) {
+      return createErrorResponse("INTERNAL_ERROR", t("users.fetchFailed"));
+    }
+
+    const date = new Date().toISOString().slice(0, 10);
+    return createCsvResponse(
+      `users-${date}.csv`,
+      toCsv<ExportedUser>(
+        users.map((user) => ({ ...user, group: user.group?.name ?? null })),
+        EXPORT_COLUMNS
+      )
+    );
+  } catch (error) {
+    console.error("Server error:", error);
+    return createErrorResponse("INTERNAL_ERROR", t("INTERNAL_ERROR"));
+  }
+});
+
+export const OPTIONS = createOptionsHandler({ GET });
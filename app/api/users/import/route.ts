@@ -0,0 +1,266 @@
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-response";
+import { ROLES, withAuth } from "@/lib/auth";
+import { createOptionsHandler } from "@/lib/cors";
+import { parseCsvRecords, type CsvRecord } from "@/lib/csv";
+import type { Translator } from "@/lib/i18n";
+import { generatePassword, passwordSchema } from "@/lib/password-policy";
+import { errorMessage } from "@/lib/saga";
+import { supabaseAdmin } from "@/lib/supabase";
+import { provisionUser } from "@/lib/user-provisioning";
+import {
+  createErrorMap,
+  toFieldErrors,
+  validateQuery,
+  type FieldError,
+} from "@/lib/validation";
+import { z } from "zod";
+
+// Schemas
+// Empty CSV cells count as missing
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(
+    (value) => (value === "" ? undefined : value),
+    schema.optional()
+  );
+
+// One CSV row; columns match GET /api/users/export (id is ignored). group
+// holds the name of an existing group.
+const importRowSchema = z.object({
+  company_code: z.string().min(1),
+  role: z.enum(ROLES),
+  store_name: optional(z.string()),
+  group: optional(z.string()),
+  email: optional(z.string().trim().toLowerCase().email()),
+  password: optional(passwordSchema),
+});
+
+const importQuerySchema = z.object({
+  dryRun: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+});
+
+const MAX_IMPORT_ROWS = 1000;
+
+// Codes per .in() lookup, so the filter stays well inside URL length limits
+const LOOKUP_CHUNK_SIZE = 100;
+
+// Types
+type ImportRow = z.infer<typeof importRowSchema>;
+
+interface ImportRowResult {
+  // Line of the CSV file the row starts on, counting from 1
+  line: number;
+  company_code: string;
+  status: "valid" | "invalid" | "created" | "failed";
+  errors?: FieldError[];
+  // Only present for created rows whose password was generated; it is not
+  // stored anywhere else, so this response is the only chance to read it
+  password?: string;
+}
+
+interface ImportResult {
+  dryRun: boolean;
+  total: number;
+  invalid: number;
+  created: number;
+  rows: ImportRowResult[];
+}
+
+// Helper functions
+const readCsv = async (request: Request): Promise<string> => {
+  if (request.headers.get("content-type")?.includes("multipart/form-data")) {
+    const file = (await request.formData()).get("file");
+    return file instanceof Blob ? file.text() : "";
+  }
+  return request.text();
+};
+
+// Company codes from the file that are already in use; null if a lookup
+// fails
+const findTakenCompanyCodes = async (
+  companyCodes: string[]
+): Promise<Set<string> | null> => {
+  const taken = new Set<string>();
+  for (let i = 0; i < companyCodes.length; i += LOOKUP_CHUNK_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from("Profiles")
+      .select("company_code")
+      .in("company_code", companyCodes.slice(i, i + LOOKUP_CHUNK_SIZE));
+    if (error) {
+      console.error("Failed to look up company codes:", error);
+      return null;
+    }
+    for (const row of data) {
+      taken.add(row.company_code);
+    }
+  }
+  return taken;
+};
+
+// Per-row results, or null if the existing accounts or groups could not be
+// read
+const validateRows = async (records: CsvRecord[], t: Translator) => {
+  const companyCodes = [
+    ...new Set(
+      records.map((record) => record.values.company_code).filter(Boolean)
+    ),
+  ];
+  const [taken, { data: groups, error: groupsError }] = await Promise.all([
+    findTakenCompanyCodes(companyCodes),
+    supabaseAdmin.from("Group").select("id, name"),
+  ]);
+  if (groupsError) {
+    console.error("Failed to fetch groups:", groupsError);
+    return null;
+  }
+  if (!taken) {
+    return null;
+  }
+  const groupIds = new Map<string, string>(
+    groups.map((group) => [group.name, group.id])
+  );
+  const seen = new Set<string>();
+
+  return records.map(({ line, values: record }) => {
+    const parsed = importRowSchema.safeParse(record, {
+      errorMap: createErrorMap(t),
+    });
+    const errors: FieldError[] = parsed.success
+      ? []
+      : toFieldErrors(t, parsed.error);
+
+    const companyCode = record.company_code ?? "";
+    if (taken.has(companyCode)) {
+      errors.push({
+        field: "company_code",
+        message: t("users.import.companyCodeTaken"),
+      });
+    } else if (companyCode && seen.has(companyCode)) {
+      errors.push({
+        field: "company_code",
+        message: t("users.import.duplicateInFile"),
+      });
+    }
+    seen.add(companyCode);
+
+    const groupName = parsed.success ? parsed.data.group : undefined;
+    const groupId = groupName ? groupIds.get(groupName) : undefined;
+    if (groupName && !groupId) {
+      errors.push({
+        field: "group",
+        message: t("users.import.unknownGroup"),
+      });
+    }
+
+    return {
+      line,
+      companyCode,
+      row: parsed.success ? parsed.data : undefined,
+      groupId,
+      errors,
+    };
+  });
+};
+
+// Route handlers
+// Accepts a CSV as the request body (text/csv) or as the "file" field of a
+// multipart form. With ?dryRun=true nothing is written.
+export const POST = withAuth({ roles: ["admin"] }, async (request, { t }) => {
+  try {
+    const query = validateQuery(request, importQuerySchema);
+    if (!query.success) {
+      return query.response;
+    }
+    const { dryRun } = query.data;
+
+    const records = parseCsvRecords(await readCsv(request));
+    if (records.length === 0) {
+      return createErrorResponse("BAD_REQUEST", t("users.import.empty"));
+    }
+    if (records.length > MAX_IMPORT_ROWS) {
+      return createErrorResponse(
+        "BAD_REQUEST",
+        t("users.import.tooManyRows", { max: MAX_IMPORT_ROWS })
+      );
+    }
+
+    const checked = await validateRows(records, t);
+    if (!checked) {
+      return createErrorResponse("INTERNAL_ERROR", t("users.fetchFailed"));
+    }
+    const invalid = checked.filter((row) => row.errors.length > 0);
+    const rows: ImportRowResult[] = checked.map(
+      ({ line, companyCode, errors }) => ({
+        line,
+        company_code: companyCode,
+        status: errors.length > 0 ? "invalid" : "valid",
+        ...(errors.length > 0 && { errors }),
+      })
+    );
+
+    // Nothing is created unless every row is valid
+    if (dryRun || invalid.length > 0) {
+      const result: ImportResult = {
+        dryRun,
+        total: records.length,
+        invalid: invalid.length,
+        created: 0,
+        rows,
+      };
+      return dryRun
+        ? createSuccessResponse<ImportResult>(result)
+        : createErrorResponse(
+            "VALIDATION_FAILED",
+            t("VALIDATION_FAILED"),
+            result
+          );
+    }
+
+    let created = 0;
+    for (const [index, { row, groupId }] of checked.entries()) {
+      const { company_code, role, store_name, email, password } =
+        row as ImportRow;
+      const initialPassword = password ?? generatePassword();
+      const result = await provisionUser({
+        companyCode: company_code,
+        password: initialPassword,
+        role,
+        storeName: store_name,
+        groupId,
+        email,
+      });
+
+      if (result.success) {
+        created++;
+        rows[index] = {
+          ...rows[index],
+          status: "created",
+          ...(!password && { password: initialPassword }),
+        };
+      } else {
+        rows[index] = {
+          ...rows[index],
+          status: "failed",
+          errors: [
+            {
+              field: result.failedStep,
+              message: errorMessage(result.error) ?? t("users.createFailed"),
+            },
+          ],
+        };
+      }
+    }
+
+    return createSuccessResponse<ImportResult>(
+      { dryRun, total: records.length, invalid: 0, created, rows },
+      { message: t("users.import.completed", { count: created }) }
+    );
+  } catch (error) {
+    console.error("User import error:", error);
+    return createErrorResponse("INTERNAL_ERROR", t("INTERNAL_ERROR"));
+  }
+});
+
+export const OPTIONS = createOptionsHandler({ POST });
@@ -1,178 +1,177 @@
-import { createClient } from "@supabase/supabase-js";
-import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
-import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-response";
+import { canManageProfile, ROLES, withAuth } from "@/lib/auth";
+import { createOptionsHandler } from "@/lib/cors";
+import type { MessageKey } from "@/lib/i18n";
+import {
+  cursorParam,
+  escapeLike,
+  keysetFilter,
+  limitParam,
+  toPage,
+  type Page,
+} from "@/lib/pagination";
+import { passwordSchema } from "@/lib/password-policy";
+import { errorMessage } from "@/lib/saga";
+import { supabaseAdmin } from "@/lib/supabase";
+import { provisionUser, type ProvisionStep } from "@/lib/user-provisioning";
+import { USER_PROFILE_COLUMNS, type UserListEntry } from "@/lib/users";
+import { validateBody, validateQuery } from "@/lib/validation";
+import { z } from "zod";
+
+// Schemas
+const createUserSchema = z.object({
+  companyCode: z.string().trim().min(1),
+  password: passwordSchema,
+  role: z.enum(ROLES),
+  storeName: z.string().trim().optional(),
+  groupId: z.string().uuid().optional(),
+  // Real contact address for password resets and notifications
+  email: z.string().trim().toLowerCase().email().optional(),
+});
+
+const listUsersSchema = z.object({
+  cursor: cursorParam.optional(),
+  limit: limitParam(50, 200),
+  role: z.enum(ROLES).optional(),
+  group_id: z.string().uuid().optional(),
+  // Substring match, case-insensitive
+  store_name: z.string().trim().min(1).optional(),
+  sort: z.enum(["company_code", "created_at"]).default("company_code"),
+  order: z.enum(["asc", "desc"]).default("asc"),
+});
 
 // Types
-interface CreateUserRequest {
-  companyCode: string;
-  password: string;
-  role: string;
-  storeName?: string;
-  group?: string;
-}
+type ListUsersQuery = z.infer<typeof listUsersSchema>;
 
-interface UserProfile {
-  id: string;
-  company_code: string;
-  role: string;
-  store_name: string | null;
-  group: string | null;
-}
-
-interface ErrorResponse {
-  error: string;
-}
-
-interface SuccessResponse {
-  success: boolean;
-  message?: string;
-  userId?: string;
-  data?: UserProfile[];
-}
-
-// Helper functions
-const createErrorResponse = (message: string, status: number): NextResponse => {
-  return NextResponse.json({ error: message } as ErrorResponse, { status });
+const PROVISION_ERRORS: Record<ProvisionStep, MessageKey> = {
+  createAuthUser: "users.createFailed",
+  insertProfile: "users.profileCreateFailed",
+  insertCompanyCodeLogin: "users.loginCreateFailed",
 };
 
-const createSuccessResponse = (data: SuccessResponse): NextResponse => {
-  return NextResponse.json(data);
-};
-
-// Ensure environment variables are set
-if (!process.env.NEXT_PUBLIC_SUPABASE_URL) {
-  throw new Error("Missing env.NEXT_PUBLIC_SUPABASE_URL");
-}
-if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
-  throw new Error("Missing env.SUPABASE_SERVICE_ROLE_KEY");
-}
+const USER_COLUMNS = `${USER_PROFILE_COLUMNS}, created_at`;
 
-// Create Supabase admin client
-const supabaseAdmin = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL,
-  process.env.SUPABASE_SERVICE_ROLE_KEY,
-  {
-    auth: {
-      autoRefreshToken: false,
-      persistSession: false,
-      detectSessionInUrl: false,
-    },
+// Helper functions
+// Profiles query with the list filters applied; used for both the page and
+// the total count
+const filteredProfiles = (
+  query: ListUsersQuery,
+  columns: string,
+  options?: { count: "exact"; head: true }
+) => {
+  let builder = supabaseAdmin.from("Profiles").select(columns, options);
+  if (query.role) {
+    builder = builder.eq("role", query.role);
   }
-);
+  if (query.group_id) {
+    builder = builder.eq("group_id", query.group_id);
+  }
+  if (query.store_name) {
+    builder = builder.ilike("store_name", `%${escapeLike(query.store_name)}%`);
+  }
+  return builder;
+};
 
 // Route handlers
-export async function POST(request: Request) {
-  try {
-    const { companyCode, password, role, storeName, group } =
-      (await request.json()) as CreateUserRequest;
-
-    // Validate input
-    if (!companyCode || !password || !role) {
-      return createErrorResponse("必須項目が不足しています", 400);
-    }
-
-    // Initialize Supabase client with cookies
-    const supabase = createRouteHandlerClient({ cookies });
-    const {
-      data: { session },
-    } = await supabase.auth.getSession();
-
-    // Ensure the user is authenticated
-    if (!session) {
-      return createErrorResponse("認証が必要です", 401);
-    }
-
-    // Check the current user's role
-    const { data: currentUser, error: fetchUserError } = await supabaseAdmin
-      .from("Profiles")
-      .select("role")
-      .eq("id", session.user.id)
-      .single();
-
-    if (fetchUserError || !currentUser || currentUser.role !== "admin") {
-      return createErrorResponse("権限がありません", 403);
-    }
-
-    // Create user in Supabase Auth
-    const { data: user, error: createUserError } =
-      await supabaseAdmin.auth.admin.createUser({
-        email: `${companyCode}@example.com`,
-        password,
-        email_confirm: true,
-        user_metadata: {
-          company_code: companyCode,
-          role,
-        },
-      });
-
-    if (createUserError || !user) {
-      return createErrorResponse(
-        createUserError?.message || "ユーザーの作成に失敗しました",
-        400
-      );
-    }
-
-    const userId = user.user.id;
-
-    // Insert profile data
-    const { error: insertError } = await supabaseAdmin.from("Profiles").insert([
-      {
-        id: userId,
-        company_code: companyCode,
-        role,
-        store_name: role === "store" ? storeName : null,
-        group,
-      },
-    ]);
-
-    if (insertError) {
-      // Rollback: Delete the user if profile creation fails
-      await supabaseAdmin.auth.admin.deleteUser(userId);
-      return createErrorResponse(
-        insertError.message || "プロファイルの作成に失敗しました",
-        400
+// Group managers can only add store accounts to their own group, which is
+// also the default group for the accounts they create
+export const POST = withAuth(
+  { roles: ["admin", "group_manager"] },
+  async (request, { auth, t }) => {
+    try {
+      const validation = await validateBody(request, createUserSchema);
+      if (!validation.success) {
+        return validation.response;
+      }
+      const user = validation.data;
+      if (auth.role === "group_manager") {
+        user.groupId ??= auth.groupId ?? undefined;
+      }
+      if (
+        !canManageProfile(auth, {
+          role: user.role,
+          group_id: user.groupId ?? null,
+        })
+      ) {
+        return createErrorResponse("FORBIDDEN", t("FORBIDDEN"));
+      }
+
+      const result = await provisionUser(user);
+      if (!result.success) {
+        return createErrorResponse(
+          "BAD_REQUEST",
+          t(PROVISION_ERRORS[result.failedStep]),
+          errorMessage(result.error)
+        );
+      }
+      const { userId } = result.context;
+
+      return createSuccessResponse(
+        { userId },
+        { message: t("users.created"), status: 201 }
       );
+    } catch (error) {
+      console.error("Server error:", error);
+      return createErrorResponse("INTERNAL_ERROR", t("INTERNAL_ERROR"));
     }
-
-    return createSuccessResponse({
-      success: true,
-      message: "ユーザーを作成しました",
-      userId,
-    });
-  } catch (error) {
-    console.error("Server error:", error);
-    return createErrorResponse("サーバーエラーが発生しました", 500);
   }
-}
-
-export async function GET() {
-  try {
-    const { data: users, error } = await supabaseAdmin
-      .from("Profiles")
-      .select("id, company_code, role, store_name, group");
+);
 
-    if (error) {
-      return createErrorResponse("ユーザーの取得に失敗しました", 500);
+// Lists profiles a page at a time, ordered by the sort column and then id.
+// Group managers only see their own group.
+export const GET = withAuth(
+  { roles: ["admin", "group_manager"] },
+  async (request, { auth, t }) => {
+    try {
+      const validation = validateQuery(request, listUsersSchema);
+      if (!validation.success) {
+        return validation.response;
+      }
+      const query = validation.data;
+      if (auth.role === "group_manager") {
+        if (
+          !auth.groupId ||
+          (query.group_id && query.group_id !== auth.groupId)
+        ) {
+          return createErrorResponse("FORBIDDEN", t("FORBIDDEN"));
+        }
+        query.group_id = auth.groupId;
+      }
+      const ascending = query.order === "asc";
+
+      let pageQuery = filteredProfiles(query, USER_COLUMNS);
+      if (query.cursor) {
+        pageQuery = pageQuery.or(
+          keysetFilter(query.sort, query.cursor, ascending)
+        );
+      }
+
+      const [pageResult, countResult] = await Promise.all([
+        pageQuery
+          .order(query.sort, { ascending })
+          .order("id", { ascending })
+          .limit(query.limit + 1)
+          .returns<UserListEntry[]>(),
+        filteredProfiles(query, "id", { count: "exact", head: true }),
+      ]);
+
+      if (pageResult.error || countResult.error) {
+        return createErrorResponse("INTERNAL_ERROR", t("users.fetchFailed"));
+      }
+
+      return createSuccessResponse<Page<UserListEntry>>(
+        toPage(
+          pageResult.data,
+          query.limit,
+          countResult.count ?? 0,
+          (user) => user[query.sort]
+        )
+      );
+    } catch (error) {
+      console.error("Server error:", error);
+      return createErrorResponse("INTERNAL_ERROR", t("INTERNAL_ERROR"));
     }
-
-    return createSuccessResponse({
-      success: true,
-      data: users,
-    });
-  } catch (error) {
-    console.error("Server error:", error);
-    return createErrorResponse("サーバーエラーが発生しました", 500);
   }
-}
+);
 
-export async function OPTIONS() {
-  return new NextResponse(null, {
-    status: 204,
-    headers: {
-      "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type, Authorization",
-    },
-  });
-}
+export const OPTIONS = createOptionsHandler({ POST, GET });
@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+
+// Error codes the frontend can branch on. The HTTP status is derived from
+// the code so the two never disagree.
+export const ERROR_STATUS = {
+  AUTH_REQUIRED: 401,
+  INVALID_CREDENTIALS: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  VALIDATION_FAILED: 400,
+  BAD_REQUEST: 400,
+  CONFLICT: 409,
+  RATE_LIMITED: 429,
+  INTERNAL_ERROR: 500,
+} as const;
+
+// Types
+export type ErrorCode = keyof typeof ERROR_STATUS;
+
+export interface ErrorResponse {
+  success: false;
+  code: ErrorCode;
+  error: string;
+  details?: unknown;
+  requestId: string;
+}
+
+export interface SuccessResponse<T> {
+  success: true;
+  message?: string;
+  data?: T;
+  requestId: string;
+}
+
+interface SuccessOptions {
+  message?: string;
+  status?: number;
+}
+
+// Helper functions
+const REQUEST_ID_HEADER = "X-Request-Id";
+
+const withRequestId = (
+  body: object,
+  status: number
+): { body: object; init: ResponseInit } => {
+  const requestId = crypto.randomUUID();
+  return {
+    body: { ...body, requestId },
+    init: { status, headers: { [REQUEST_ID_HEADER]: requestId } },
+  };
+};
+
+export const createErrorResponse = (
+  code: ErrorCode,
+  message: string,
+  details?: unknown
+): NextResponse => {
+  const { body, init } = withRequestId(
+    {
+      success: false,
+      code,
+      error: message,
+      ...(details !== undefined && { details }),
+    },
+    ERROR_STATUS[code]
+  );
+  return NextResponse.json(body as ErrorResponse, init);
+};
+
+export const createSuccessResponse = <T>(
+  data?: T,
+  options: SuccessOptions = {}
+): NextResponse => {
+  const { body, init } = withRequestId(
+    {
+      success: true,
+      ...(options.message !== undefined && { message: options.message }),
+      ...(data !== undefined && { data }),
+    },
+    options.status ?? 200
+  );
+  return NextResponse.json(body as SuccessResponse<T>, init);
+};
+
+// CSV download. A BOM is prepended so Excel reads Japanese text as UTF-8.
+export const createCsvResponse = (
+  filename: string,
+  csv: string
+): NextResponse => {
+  return new NextResponse(`\uFEFF${csv}`, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      [REQUEST_ID_HEADER]: crypto.randomUUID(),
+    },
+  });
+};
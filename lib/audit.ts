@@ -0,0 +1,29 @@
+import { supabaseAdmin } from "@/lib/supabase";
+
+// Types
+export type AuditAction =
+  "user.delete" | "user.reconcile.repair" | "user.reconcile.purge";
+
+interface AuditEvent {
+  actorId: string;
+  action: AuditAction;
+  targetId: string;
+  details?: Record<string, unknown>;
+}
+
+// Writes an AuditLog row. Failures are logged rather than thrown so an
+// already-completed action is never reported to the caller as failed.
+export async function recordAuditEvent(event: AuditEvent): Promise<void> {
+  const { error } = await supabaseAdmin.from("AuditLog").insert([
+    {
+      actor_id: event.actorId,
+      action: event.action,
+      target_id: event.targetId,
+      details: event.details ?? null,
+    },
+  ]);
+
+  if (error) {
+    console.error("Failed to record audit event:", error, event);
+  }
+}
@@ -0,0 +1,229 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import type { Session, SupabaseClient } from "@supabase/supabase-js";
+import { cookies } from "next/headers";
+import { createErrorResponse } from "@/lib/api-response";
+import { getTranslator, type Translator } from "@/lib/i18n";
+import { verifyAccessToken } from "@/lib/jwt";
+import { createUserClient, supabaseAdmin } from "@/lib/supabase";
+
+// Types
+// admin: HQ, everything. group_manager: the stores in their own group.
+// store: their own store only.
+export const ROLES = ["admin", "group_manager", "store"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export interface AuthContext {
+  userId: string;
+  role: Role;
+  companyCode: string;
+  storeId: string | null;
+  groupId: string | null;
+  supabase: SupabaseClient;
+}
+
+// The store a store-scoped route works on, once the caller is allowed to
+export interface StoreScope {
+  companyCode: string;
+  storeId: string | null;
+  groupId: string | null;
+  // The caller's own client for store users; the service client for admins
+  // and group managers, whose access was checked here instead of by RLS
+  supabase: SupabaseClient;
+}
+
+export type StoreScopeResult =
+  { success: true; store: StoreScope } | { success: false; response: Response };
+
+// Token pair handed to API clients after login or refresh
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresAt: number | undefined;
+}
+
+interface WithAuthOptions {
+  roles?: Role[];
+}
+
+interface RouteContext<P> {
+  params: Promise<P>;
+}
+
+interface Caller {
+  userId: string;
+  supabase: SupabaseClient;
+}
+
+type AuthenticatedHandler<P> = (
+  request: Request,
+  context: { auth: AuthContext; params: P; t: Translator }
+) => Promise<Response>;
+
+// Helper functions
+export const toSessionTokens = (session: Session): SessionTokens => ({
+  token: session.access_token,
+  refreshToken: session.refresh_token,
+  expiresAt: session.expires_at,
+});
+
+export const getBearerToken = (request: Request): string | null => {
+  const header = request.headers.get("authorization");
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+};
+
+// Identifies the caller from an Authorization: Bearer token if one is sent,
+// otherwise from the Supabase session cookie. A bearer token is checked
+// locally first, then with Supabase, because a signed token stays valid
+// until it expires even after its session has been logged out.
+const authenticate = async (request: Request): Promise<Caller | null> => {
+  const token = getBearerToken(request);
+  if (token) {
+    const claims = await verifyAccessToken(token);
+    if (!claims) {
+      return null;
+    }
+    const { data, error } = await supabaseAdmin.auth.getUser(token);
+    return error || data.user?.id !== claims.sub
+      ? null
+      : { userId: claims.sub, supabase: createUserClient(token) };
+  }
+
+  const supabase = createRouteHandlerClient({ cookies });
+  const {
+    data: { session },
+    error: sessionError,
+  } = await supabase.auth.getSession();
+
+  return sessionError || !session
+    ? null
+    : { userId: session.user.id, supabase };
+};
+
+// Wraps a route handler so it only runs for a signed-in caller (cookie
+// session or bearer token) whose Profiles row has one of the allowed roles.
+export function withAuth<P = Record<string, string>>(
+  options: WithAuthOptions,
+  handler: AuthenticatedHandler<P>
+) {
+  return async (request: Request, context: RouteContext<P>) => {
+    const t = getTranslator(request);
+    try {
+      const caller = await authenticate(request);
+      if (!caller) {
+        return createErrorResponse("AUTH_REQUIRED", t("AUTH_REQUIRED"));
+      }
+
+      const { data: profile, error: profileError } = await supabaseAdmin
+        .from("Profiles")
+        .select("company_code, company_id, role, group_id")
+        .eq("id", caller.userId)
+        .single();
+
+      if (profileError || !profile) {
+        return createErrorResponse("FORBIDDEN", t("FORBIDDEN"));
+      }
+
+      if (options.roles && !options.roles.includes(profile.role)) {
+        return createErrorResponse("FORBIDDEN", t("FORBIDDEN"));
+      }
+
+      const auth: AuthContext = {
+        userId: caller.userId,
+        role: profile.role,
+        companyCode: profile.company_code,
+        storeId: profile.company_id,
+        groupId: profile.group_id,
+        supabase: caller.supabase,
+      };
+
+      // Awaited so that errors thrown by the handler are caught below
+      return await handler(request, { auth, params: await context.params, t });
+    } catch (error) {
+      console.error("Failed to authenticate request:", error);
+      return createErrorResponse("INTERNAL_ERROR", t("auth.unexpected"));
+    }
+  };
+}
+
+// Scope checks
+
+export const canAccessGroup = (auth: AuthContext, groupId: string | null) =>
+  auth.role === "admin" ||
+  (auth.role === "group_manager" &&
+    auth.groupId !== null &&
+    auth.groupId === groupId);
+
+// Admins manage every account; group managers only store accounts in their
+// own group
+export const canManageProfile = (
+  auth: AuthContext,
+  profile: { role: string; group_id: string | null }
+) =>
+  auth.role === "admin" ||
+  (profile.role === "store" && canAccessGroup(auth, profile.group_id));
+
+// Store users always work on their own store. Admins and group managers
+// name the store by its company code (e.g. ?storeCode=), and group managers
+// only reach stores in their group.
+export async function resolveStoreScope(
+  auth: AuthContext,
+  storeCode: string | undefined,
+  t: Translator
+): Promise<StoreScopeResult> {
+  if (auth.role === "store") {
+    if (storeCode && storeCode !== auth.companyCode) {
+      return {
+        success: false,
+        response: createErrorResponse("FORBIDDEN", t("FORBIDDEN")),
+      };
+    }
+    return {
+      success: true,
+      store: {
+        companyCode: auth.companyCode,
+        storeId: auth.storeId,
+        groupId: auth.groupId,
+        supabase: auth.supabase,
+      },
+    };
+  }
+
+  if (!storeCode) {
+    return {
+      success: false,
+      response: createErrorResponse("BAD_REQUEST", t("store.codeRequired")),
+    };
+  }
+
+  const { data: store } = await supabaseAdmin
+    .from("Profiles")
+    .select("company_code, company_id, role, group_id")
+    .eq("company_code", storeCode)
+    .eq("role", "store")
+    .maybeSingle();
+
+  if (!store) {
+    return {
+      success: false,
+      response: createErrorResponse("NOT_FOUND", t("store.notFound")),
+    };
+  }
+  if (!canManageProfile(auth, store)) {
+    return {
+      success: false,
+      response: createErrorResponse("FORBIDDEN", t("FORBIDDEN")),
+    };
+  }
+
+  return {
+    success: true,
+    store: {
+      companyCode: store.company_code,
+      storeId: store.company_id,
+      groupId: store.group_id,
+      supabase: supabaseAdmin,
+    },
+  };
+}
@@ -0,0 +1,92 @@
+// Passwords that show up at the top of public breach lists, plus a few that
+// are common for this business. Compared case-insensitively.
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  "123456",
+  "1234567",
+  "12345678",
+  "123456789",
+  "1234567890",
+  "0123456789",
+  "111111",
+  "11111111",
+  "000000",
+  "00000000",
+  "123123",
+  "123123123",
+  "654321",
+  "987654321",
+  "112233",
+  "121212",
+  "666666",
+  "888888",
+  "password",
+  "password1",
+  "password12",
+  "password123",
+  "password1234",
+  "passw0rd",
+  "p@ssw0rd",
+  "p@ssword",
+  "pass1234",
+  "qwerty",
+  "qwerty123",
+  "qwertyuiop",
+  "qwerty1234",
+  "1q2w3e4r",
+  "1q2w3e4r5t",
+  "1qaz2wsx",
+  "zaq12wsx",
+  "asdfghjkl",
+  "asdf1234",
+  "abc123",
+  "abc12345",
+  "abcd1234",
+  "abcdefg",
+  "abcdefgh",
+  "aa123456",
+  "a123456789",
+  "iloveyou",
+  "welcome",
+  "welcome1",
+  "welcome123",
+  "letmein",
+  "letmein123",
+  "admin",
+  "admin123",
+  "admin1234",
+  "administrator",
+  "changeme",
+  "changeme123",
+  "default",
+  "guest",
+  "login",
+  "master",
+  "monkey",
+  "dragon",
+  "football",
+  "baseball",
+  "sunshine",
+  "princess",
+  "superman",
+  "starwars",
+  "trustno1",
+  "secret",
+  "secret123",
+  "test",
+  "test1234",
+  "testtest",
+  "computer",
+  "internet",
+  "japan",
+  "tokyo",
+  "tokyo123",
+  "sakura",
+  "store",
+  "store123",
+  "store1234",
+  "shop1234",
+  "menu1234",
+  "company",
+  "company123",
+  "example",
+]);
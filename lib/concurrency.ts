@@ -0,0 +1,53 @@
+import { createErrorResponse } from "@/lib/api-response";
+import type { Translator } from "@/lib/i18n";
+import { NextResponse } from "next/server";
+
+// Optimistic concurrency. A resource's version is its updated_at as the
+// database returns it. GETs and PUTs send it as the ETag header and as a
+// `version` field. A PUT may send it back in If-Match or in the body, and
+// is rejected with 409 and the current state when the resource has changed
+// since.
+
+// Helper functions
+export const withEtag = (
+  response: NextResponse,
+  version: string | null
+): NextResponse => {
+  if (version !== null) {
+    response.headers.set("ETag", `"${version}"`);
+  }
+  return response;
+};
+
+// The version a write expects: If-Match takes precedence over the body's
+// version field. "*" or no precondition means "any version".
+export const getExpectedVersion = (
+  request: Request,
+  bodyVersion: string | undefined
+): string | undefined => {
+  const ifMatch = request.headers.get("if-match")?.trim();
+  if (ifMatch && ifMatch !== "*") {
+    return ifMatch.replace(/^W\//, "").replace(/^"(.*)"$/, "$1");
+  }
+  return bodyVersion;
+};
+
+// Compares a version from a client with a row's updated_at by value, so
+// the Prisma form (…Z) and the PostgREST form (no zone, always UTC) match
+export const isCurrentVersion = (expected: string, updatedAt: Date) => {
+  const hasZone = /(Z|[+-]\d{2}:?\d{2})$/.test(expected);
+  const time = Date.parse(hasZone ? expected : `${expected}Z`);
+  return time === updatedAt.getTime();
+};
+
+export const createStaleVersionResponse = <T>(
+  t: Translator,
+  current: T,
+  version: string | null
+): NextResponse =>
+  withEtag(
+    createErrorResponse("CONFLICT", t("concurrency.staleVersion"), {
+      current,
+    }),
+    version
+  );
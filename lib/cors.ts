@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+
+// CORS configuration, read from the environment:
+//   CORS_ALLOWED_ORIGINS    comma-separated origins, or "*" for any origin
+//   CORS_ALLOW_CREDENTIALS  "true" to let browsers send cookies
+// Origins that are not listed get no CORS headers, so browsers block them.
+// Credentials are only ever allowed for origins listed by name, never for
+// the "*" wildcard, which would let any site act with a user's cookies.
+const allowedOrigins = (process.env.CORS_ALLOWED_ORIGINS ?? "")
+  .split(",")
+  .map((origin) => origin.trim().replace(/\/$/, ""))
+  .filter(Boolean);
+
+const allowCredentials = process.env.CORS_ALLOW_CREDENTIALS === "true";
+
+if (allowCredentials && allowedOrigins.includes("*")) {
+  console.warn(
+    'CORS_ALLOW_CREDENTIALS is ignored for the "*" origin; list the origins that may send cookies'
+  );
+}
+
+const ALLOWED_HEADERS = [
+  "Content-Type",
+  "Authorization",
+  "Accept-Language",
+  "If-Match",
+];
+
+const EXPOSED_HEADERS = ["X-Request-Id", "Retry-After", "ETag"];
+
+const PREFLIGHT_MAX_AGE_SECONDS = 600;
+
+export function isOriginAllowed(origin: string): boolean {
+  return allowedOrigins.includes("*") || allowedOrigins.includes(origin);
+}
+
+// Headers to add to a response for the given request Origin. The origin is
+// always echoed rather than "*" so credentialed requests keep working.
+export function getCorsHeaders(origin: string | null): Record<string, string> {
+  if (!origin || !isOriginAllowed(origin)) {
+    return {};
+  }
+
+  return {
+    "Access-Control-Allow-Origin": origin,
+    "Access-Control-Allow-Headers": ALLOWED_HEADERS.join(", "),
+    "Access-Control-Expose-Headers": EXPOSED_HEADERS.join(", "),
+    "Access-Control-Max-Age": String(PREFLIGHT_MAX_AGE_SECONDS),
+    ...(allowCredentials &&
+      allowedOrigins.includes(origin) && {
+        "Access-Control-Allow-Credentials": "true",
+      }),
+    Vary: "Origin",
+  };
+}
+
+// Builds a route's OPTIONS handler from the handlers it exports, e.g.
+// `export const OPTIONS = createOptionsHandler({ GET, PUT });`
+// The origin headers themselves are added by middleware.ts.
+export function createOptionsHandler(handlers: Record<string, unknown>) {
+  const methods = [...Object.keys(handlers), "OPTIONS"].join(", ");
+  return async () =>
+    new NextResponse(null, {
+      status: 204,
+      headers: {
+        Allow: methods,
+        "Access-Control-Allow-Methods": methods,
+      },
+    });
+}
@@ -0,0 +1,114 @@
+// Minimal RFC 4180 CSV reading and writing (quoted fields, escaped quotes,
+// CRLF or LF line endings)
+
+// Types
+export interface CsvRow {
+  // Line of the file the row starts on, counting from 1
+  line: number;
+  fields: string[];
+}
+
+export interface CsvRecord {
+  line: number;
+  values: Record<string, string>;
+}
+
+// Parses CSV text into rows of fields. A leading UTF-8 BOM is ignored.
+// Line numbers count every line break, including those inside quoted
+// fields and blank lines.
+export function parseCsv(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+        if (char === "\n" || (char === "\r" && input[i + 1] !== "\n")) {
+          line++;
+        }
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push({ line: rowLine, fields: row });
+      row = [];
+      field = "";
+      rowLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push({ line: rowLine, fields: row });
+  }
+
+  // Drop blank lines
+  return rows.filter(({ fields }) =>
+    fields.some((value) => value.trim() !== "")
+  );
+}
+
+// Spreadsheets run cells starting with these characters as formulas.
+// toCsv prefixes such cells with a quote, which reads as text in Excel.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const QUOTED_FORMULA_PREFIX = /^'(?=[=+\-@\t\r])/;
+
+// Turns a header row plus data rows into objects keyed by header name.
+// The quote toCsv adds in front of formula-like cells is removed again.
+export function parseCsvRecords(text: string): CsvRecord[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return [];
+  }
+  const columns = header.fields.map((name) => name.trim().toLowerCase());
+  return rows.map(({ line, fields }) => ({
+    line,
+    values: Object.fromEntries(
+      columns.map((column, index) => [
+        column,
+        (fields[index] ?? "").replace(QUOTED_FORMULA_PREFIX, "").trim(),
+      ])
+    ),
+  }));
+}
+
+const escapeField = (value: unknown): string => {
+  const raw = value === null || value === undefined ? "" : String(value);
+  const text = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Serializes objects as CSV with the given columns as the header row
+export function toCsv<T extends object>(
+  records: T[],
+  columns: (keyof T & string)[]
+): string {
+  const lines = [
+    columns.map(escapeField).join(","),
+    ...records.map((record) =>
+      columns.map((column) => escapeField(record[column])).join(",")
+    ),
+  ];
+  return lines.join("\r\n") + "\r\n";
+}
@@ -0,0 +1,20 @@
+import { z } from "zod";
+
+// Schemas
+// Group ids in route params. Anything else cannot name a group, and would
+// make Postgres reject the query.
+export const groupIdSchema = z.string().uuid();
+
+// Types
+export interface StoreGroup {
+  id: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const GROUP_COLUMNS = "id, name, description, created_at, updated_at";
+
+// Postgres unique_violation, e.g. a taken group name
+export const UNIQUE_VIOLATION = "23505";
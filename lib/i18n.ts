@@ -0,0 +1,65 @@
+import { en } from "@/lib/messages/en";
+import { ja } from "@/lib/messages/ja";
+
+// Types
+export type Locale = "ja" | "en";
+
+export type MessageKey = keyof typeof en;
+
+export type MessageBundle = Record<MessageKey, string>;
+
+export type Translator = (
+  key: MessageKey,
+  params?: Record<string, string | number>
+) => string;
+
+const bundles: Record<Locale, MessageBundle> = { ja, en };
+
+export const DEFAULT_LOCALE: Locale = "ja";
+
+// Helper functions
+const toLocale = (tag: string): Locale | undefined => {
+  const language = tag.trim().toLowerCase().split("-")[0];
+  return language in bundles ? (language as Locale) : undefined;
+};
+
+// Picks the highest-weighted supported language from Accept-Language
+const fromAcceptLanguage = (header: string): Locale | undefined => {
+  return header
+    .split(",")
+    .map((part) => {
+      const [tag, ...attributes] = part.split(";");
+      const quality = attributes
+        .map((attribute) => attribute.trim())
+        .find((attribute) => attribute.startsWith("q="));
+      return { tag, q: quality ? Number(quality.slice(2)) : 1 };
+    })
+    .filter(({ q }) => q > 0)
+    .sort((a, b) => b.q - a.q)
+    .map(({ tag }) => toLocale(tag))
+    .find((locale) => locale !== undefined);
+};
+
+// A ?lang= query parameter wins over the Accept-Language header
+export function resolveLocale(request: Request): Locale {
+  const lang = new URL(request.url).searchParams.get("lang");
+  return (
+    (lang && toLocale(lang)) ||
+    fromAcceptLanguage(request.headers.get("accept-language") ?? "") ||
+    DEFAULT_LOCALE
+  );
+}
+
+export const isMessageKey = (value: string): value is MessageKey =>
+  Object.hasOwn(en, value);
+
+export function createTranslator(locale: Locale): Translator {
+  return (key, params = {}) =>
+    bundles[locale][key].replace(/\{(\w+)\}/g, (match, name) =>
+      name in params ? String(params[name]) : match
+    );
+}
+
+export function getTranslator(request: Request): Translator {
+  return createTranslator(resolveLocale(request));
+}
@@ -0,0 +1,60 @@
+import { SignJWT, jwtVerify, type JWTPayload } from "jose";
+
+// Ensure environment variables are set. Checked here rather than per
+// request, where a missing secret would look like a bad token.
+if (!process.env.SUPABASE_JWT_SECRET) {
+  throw new Error("Missing env.SUPABASE_JWT_SECRET");
+}
+
+// Types
+export interface AccessTokenClaims extends JWTPayload {
+  sub: string;
+  email?: string;
+  role?: string;
+}
+
+interface SignOptions {
+  email?: string;
+  expiresIn?: string;
+}
+
+// Supabase signs access tokens for this audience
+const AUDIENCE = "authenticated";
+
+const SECRET = new TextEncoder().encode(process.env.SUPABASE_JWT_SECRET);
+
+// Helper functions
+
+// Checks the signature, expiry and audience of a Supabase access token.
+// Returns null for any token that should not be trusted.
+export async function verifyAccessToken(
+  token: string
+): Promise<AccessTokenClaims | null> {
+  try {
+    const { payload } = await jwtVerify(token, SECRET, {
+      algorithms: ["HS256"],
+      audience: AUDIENCE,
+    });
+    return payload.sub ? (payload as AccessTokenClaims) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Local stand-in for Supabase's token signer. Tokens are signed with the
+// same secret, so verifyAccessToken accepts them without network access.
+export async function signAccessToken(
+  userId: string,
+  options: SignOptions = {}
+): Promise<string> {
+  return new SignJWT({
+    role: AUDIENCE,
+    ...(options.email && { email: options.email }),
+  })
+    .setProtectedHeader({ alg: "HS256", typ: "JWT" })
+    .setSubject(userId)
+    .setAudience(AUDIENCE)
+    .setIssuedAt()
+    .setExpirationTime(options.expiresIn ?? "1h")
+    .sign(SECRET);
+}
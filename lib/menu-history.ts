@@ -0,0 +1,155 @@
+import type { Page } from "@/lib/pagination";
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+
+// Types
+// "schedule" is a scheduled change written into the row; its actor is the
+// author of the schedule
+export type MenuChangeAction = "create" | "update" | "archive" | "schedule";
+
+export type FieldChanges = Record<
+  string,
+  { from: Prisma.JsonValue; to: Prisma.JsonValue }
+>;
+
+interface MenuChangeEntry {
+  menuId: number;
+  // null for the master item
+  storeId: string | null;
+  actorId: string;
+  action: MenuChangeAction;
+  changes: FieldChanges;
+}
+
+export interface MenuChangeResponse {
+  id: number;
+  menuId: number;
+  storeId: string | null;
+  actorId: string;
+  // Company code of the actor, if the account still exists
+  actorCompanyCode: string | null;
+  action: string;
+  changes: FieldChanges;
+  createdAt: string;
+}
+
+// Fields recorded for master items and for store menu entries
+export const MENU_ITEM_HISTORY_FIELDS = [
+  "name",
+  "price",
+  "status",
+  "description",
+  "K",
+  "other",
+  "archived_at",
+] as const;
+
+export const STORE_MENU_ITEM_HISTORY_FIELDS = [
+  "menu_name",
+  "price",
+  "status",
+] as const;
+
+// Schemas
+export const historyQuerySchema = z.object({
+  // id of the last entry of the previous page
+  cursor: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type HistoryQuery = z.infer<typeof historyQuerySchema>;
+
+// Helper functions
+const toJson = (value: unknown): Prisma.JsonValue => {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Prisma.Decimal.isDecimal(value)) {
+    return Number(value);
+  }
+  return (value ?? null) as Prisma.JsonValue;
+};
+
+// Fields whose value differs between two versions of a row; `before` is
+// null for a newly created row
+export function diffFields<T extends object>(
+  before: T | null,
+  after: T,
+  fields: readonly (keyof T & string)[]
+): FieldChanges {
+  const changes: FieldChanges = {};
+  for (const field of fields) {
+    const from = before ? toJson(before[field]) : null;
+    const to = toJson(after[field]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+// Writes history entries inside the caller's transaction, so the changes
+// and their records commit together. Entries that changed nothing are
+// skipped.
+export async function recordMenuChanges(
+  tx: Prisma.TransactionClient,
+  entries: MenuChangeEntry[]
+): Promise<void> {
+  const data = entries
+    .filter((entry) => Object.keys(entry.changes).length > 0)
+    .map((entry) => ({
+      menu_id: entry.menuId,
+      store_id: entry.storeId,
+      actor_id: entry.actorId,
+      action: entry.action,
+      changes: entry.changes,
+    }));
+  if (data.length > 0) {
+    await tx.menuChange.createMany({ data });
+  }
+}
+
+export const recordMenuChange = (
+  tx: Prisma.TransactionClient,
+  entry: MenuChangeEntry
+) => recordMenuChanges(tx, [entry]);
+
+// Newest first, a page at a time
+export async function listMenuChanges(
+  menuId: number,
+  storeId: string | null,
+  { cursor, limit }: HistoryQuery
+): Promise<Page<MenuChangeResponse>> {
+  const where = { menu_id: menuId, store_id: storeId };
+  const [rows, total] = await Promise.all([
+    prisma.menuChange.findMany({
+      where: { ...where, ...(cursor && { id: { lt: cursor } }) },
+      orderBy: { id: "desc" },
+      take: limit + 1,
+    }),
+    prisma.menuChange.count({ where }),
+  ]);
+
+  const page = rows.slice(0, limit);
+  const actors = await prisma.profiles.findMany({
+    where: { id: { in: [...new Set(page.map((row) => row.actor_id))] } },
+    select: { id: true, company_code: true },
+  });
+
+  return {
+    items: page.map((row): MenuChangeResponse => ({
+      id: row.id,
+      menuId: row.menu_id,
+      storeId: row.store_id,
+      actorId: row.actor_id,
+      actorCompanyCode:
+        actors.find((actor) => actor.id === row.actor_id)?.company_code ?? null,
+      action: row.action,
+      changes: row.changes as FieldChanges,
+      createdAt: row.created_at.toISOString(),
+    })),
+    total,
+    nextCursor: rows.length > limit ? String(page[page.length - 1].id) : null,
+  };
+}
@@ -0,0 +1,317 @@
+import { MAX_BULK_ITEMS } from "@/lib/menu";
+import {
+  diffFields,
+  recordMenuChanges,
+  STORE_MENU_ITEM_HISTORY_FIELDS,
+  type FieldChanges,
+} from "@/lib/menu-history";
+import {
+  applyDueChanges,
+  findSchedulesInEffect,
+  resolveSchedules,
+} from "@/lib/menu-schedule";
+import { prisma } from "@/lib/prisma";
+import { Prisma, type StoreMenuItem } from "@prisma/client";
+import { z } from "zod";
+
+// Schemas
+export const propagationSchema = z
+  .object({
+    // Master items to push; every active item when omitted
+    menuIds: z
+      .array(z.number().int().positive())
+      .min(1)
+      .max(MAX_BULK_ITEMS)
+      .optional(),
+    // Target stores by company code, whole groups, or both
+    storeCodes: z.array(z.string().trim().min(1)).default([]),
+    groupIds: z.array(z.string().uuid()).default([]),
+    // keep: prices a store set itself stay in place. replace: every store
+    // gets the HQ price.
+    overrides: z.enum(["keep", "replace"]).default("keep"),
+  })
+  .refine((body) => body.storeCodes.length + body.groupIds.length > 0, {
+    message: "propagation.noTargets",
+    path: ["storeCodes"],
+  });
+
+// Types
+export type PropagationRequest = z.infer<typeof propagationSchema>;
+
+export interface PropagationChange {
+  storeCode: string;
+  storeId: string;
+  menuId: number;
+  action: "create" | "update";
+  changes: FieldChanges;
+}
+
+// A store price left in place under the "keep" policy
+export interface KeptOverride {
+  storeCode: string;
+  menuId: number;
+  storePrice: number;
+  hqPrice: number;
+}
+
+export interface PropagationResult {
+  dryRun: boolean;
+  stores: number;
+  items: number;
+  created: number;
+  updated: number;
+  changes: PropagationChange[];
+  keptOverrides: KeptOverride[];
+}
+
+export type PropagationOutcome =
+  | { status: "done"; result: PropagationResult }
+  | { status: "unknownItems"; menuIds: number[] }
+  | { status: "unknownStores"; storeCodes: string[] }
+  | { status: "noStores" };
+
+interface TargetStore {
+  companyCode: string;
+  storeId: string;
+}
+
+// Seeding or updating every store can take a while
+const PROPAGATION_TRANSACTION_TIMEOUT_MS = 60_000;
+
+// Helper functions
+// Store accounts named by code or in one of the groups, one per store.
+// Codes that are not a store account with a store id are reported back.
+const findTargetStores = async ({
+  storeCodes,
+  groupIds,
+}: PropagationRequest) => {
+  const profiles = await prisma.profiles.findMany({
+    where: {
+      role: "store",
+      company_id: { not: null },
+      OR: [
+        { company_code: { in: storeCodes } },
+        { group_id: { in: groupIds } },
+      ],
+    },
+    select: { company_code: true, company_id: true },
+    orderBy: { company_code: "asc" },
+  });
+
+  const stores = new Map<string, TargetStore>();
+  for (const profile of profiles) {
+    if (profile.company_id && !stores.has(profile.company_id)) {
+      stores.set(profile.company_id, {
+        companyCode: profile.company_code,
+        storeId: profile.company_id,
+      });
+    }
+  }
+  const unknown = storeCodes.filter(
+    (code) => !profiles.some((profile) => profile.company_code === code)
+  );
+  return { stores: [...stores.values()], unknown };
+};
+
+// Master items as they stand at `now`. A real run locks them and writes
+// due scheduled changes into them first; a dry run only works those
+// changes out. Availability windows are left to each read.
+const findMasterItems = async (
+  tx: Prisma.TransactionClient,
+  menuIds: number[] | undefined,
+  now: Date,
+  dryRun: boolean
+) => {
+  const where = {
+    archived_at: null,
+    ...(menuIds && { menu_id: { in: menuIds } }),
+  };
+  const select = { menu_id: true, name: true, price: true, status: true };
+  const orderBy = { menu_id: "asc" } as const;
+
+  if (!dryRun) {
+    const locked = await tx.$queryRaw<{ menu_id: number }[]>`
+      SELECT "menu_id" FROM "MenuItem"
+      WHERE "archived_at" IS NULL
+        ${menuIds ? Prisma.sql`AND "menu_id" IN (${Prisma.join(menuIds)})` : Prisma.empty}
+      FOR UPDATE`;
+    if (locked.length > 0) {
+      await applyDueChanges(
+        tx,
+        null,
+        locked.map((item) => item.menu_id),
+        now
+      );
+    }
+    return tx.menuItem.findMany({ where, select, orderBy });
+  }
+
+  const items = await tx.menuItem.findMany({ where, select, orderBy });
+  const schedules = await findSchedulesInEffect(
+    null,
+    now,
+    items.map((item) => item.menu_id)
+  );
+  return items.map((item) => {
+    const due = schedules
+      .get(item.menu_id)
+      ?.filter((schedule) => schedule.kind === "change");
+    const resolved = resolveSchedules(
+      { price: Number(item.price), isActive: item.status },
+      due,
+      now
+    );
+    return {
+      ...item,
+      price: new Prisma.Decimal(resolved.price),
+      status: resolved.isActive,
+    };
+  });
+};
+
+// Seeds missing StoreMenuItem rows from the master items and brings names
+// and prices of existing rows in line with them. Store availability is
+// the store's own and is only set for new rows. With dryRun the changes are
+// worked out the same way but not written.
+export async function propagateMenu(
+  body: PropagationRequest,
+  actorId: string,
+  dryRun: boolean
+): Promise<PropagationOutcome> {
+  const { stores, unknown } = await findTargetStores(body);
+  if (unknown.length > 0) {
+    return { status: "unknownStores", storeCodes: unknown };
+  }
+  if (stores.length === 0) {
+    return { status: "noStores" };
+  }
+
+  return prisma.$transaction(
+    async (tx): Promise<PropagationOutcome> => {
+      const now = new Date();
+      const items = await findMasterItems(tx, body.menuIds, now, dryRun);
+      const missing = (body.menuIds ?? []).filter(
+        (id) => !items.some((item) => item.menu_id === id)
+      );
+      if (missing.length > 0) {
+        return { status: "unknownItems", menuIds: missing };
+      }
+
+      const storeIds = stores.map((store) => store.storeId);
+      const menuIds = items.map((item) => item.menu_id);
+      if (!dryRun && menuIds.length > 0) {
+        await tx.$queryRaw`
+          SELECT 1 FROM "StoreMenuItem"
+          WHERE "store_id" IN (${Prisma.join(storeIds)})
+            AND "menu_id" IN (${Prisma.join(menuIds)})
+          FOR UPDATE`;
+      }
+      const rows = await tx.storeMenuItem.findMany({
+        where: { store_id: { in: storeIds }, menu_id: { in: menuIds } },
+      });
+      const existing = new Map(
+        rows.map((row) => [`${row.store_id}:${row.menu_id}`, row])
+      );
+
+      const creates: Prisma.StoreMenuItemCreateManyInput[] = [];
+      const updates: StoreMenuItem[] = [];
+      const changes: PropagationChange[] = [];
+      const keptOverrides: KeptOverride[] = [];
+
+      for (const store of stores) {
+        for (const item of items) {
+          const target = {
+            storeCode: store.companyCode,
+            storeId: store.storeId,
+            menuId: item.menu_id,
+          };
+          const row = existing.get(`${store.storeId}:${item.menu_id}`);
+          if (!row) {
+            const created = {
+              menu_name: item.name,
+              price: item.price,
+              status: item.status,
+            };
+            creates.push({
+              store_id: store.storeId,
+              menu_id: item.menu_id,
+              ...created,
+            });
+            changes.push({
+              ...target,
+              action: "create",
+              changes: diffFields(
+                null,
+                created,
+                STORE_MENU_ITEM_HISTORY_FIELDS
+              ),
+            });
+            continue;
+          }
+
+          const keep = body.overrides === "keep" && row.price_override;
+          if (keep && !row.price.equals(item.price)) {
+            keptOverrides.push({
+              storeCode: store.companyCode,
+              menuId: item.menu_id,
+              storePrice: Number(row.price),
+              hqPrice: Number(item.price),
+            });
+          }
+          const updated = {
+            ...row,
+            menu_name: item.name,
+            price: keep ? row.price : item.price,
+            price_override: keep,
+          };
+          const diff = diffFields(row, updated, STORE_MENU_ITEM_HISTORY_FIELDS);
+          if (Object.keys(diff).length > 0) {
+            updates.push(updated);
+            changes.push({ ...target, action: "update", changes: diff });
+          }
+        }
+      }
+
+      if (!dryRun) {
+        if (creates.length > 0) {
+          await tx.storeMenuItem.createMany({ data: creates });
+        }
+        for (const update of updates) {
+          await tx.storeMenuItem.update({
+            where: { store_menu_item_id: update.store_menu_item_id },
+            data: {
+              menu_name: update.menu_name,
+              price: update.price,
+              price_override: update.price_override,
+              updated_at: now,
+            },
+          });
+        }
+        await recordMenuChanges(
+          tx,
+          changes.map((change) => ({
+            menuId: change.menuId,
+            storeId: change.storeId,
+            actorId,
+            action: change.action,
+            changes: change.changes,
+          }))
+        );
+      }
+
+      return {
+        status: "done",
+        result: {
+          dryRun,
+          stores: stores.length,
+          items: items.length,
+          created: creates.length,
+          updated: updates.length,
+          changes,
+          keptOverrides,
+        },
+      };
+    },
+    { timeout: PROPAGATION_TRANSACTION_TIMEOUT_MS }
+  );
+}
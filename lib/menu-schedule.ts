@@ -0,0 +1,419 @@
+import { MENU_ITEM_SELECT } from "@/lib/menu";
+import {
+  diffFields,
+  MENU_ITEM_HISTORY_FIELDS,
+  recordMenuChange,
+  STORE_MENU_ITEM_HISTORY_FIELDS,
+} from "@/lib/menu-history";
+import { prisma } from "@/lib/prisma";
+import type { MessageKey } from "@/lib/i18n";
+import { isoDateTime } from "@/lib/validation";
+import type { MenuSchedule, Prisma } from "@prisma/client";
+import { z } from "zod";
+
+// Configuration
+// Availability windows are in this time zone's wall-clock time
+export const SCHEDULE_TIME_ZONE =
+  process.env.MENU_SCHEDULE_TIME_ZONE || "Asia/Tokyo";
+
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const;
+
+// Schemas
+const timeOfDay = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "menuSchedules.invalidTime");
+
+export const createScheduleSchema = z
+  .discriminatedUnion("type", [
+    z.object({
+      type: z.literal("change"),
+      startsAt: isoDateTime,
+      price: z.number().nonnegative().optional(),
+      isActive: z.boolean().optional(),
+    }),
+    z.object({
+      type: z.literal("window"),
+      days: z.array(z.enum(WEEKDAYS)).min(1),
+      from: timeOfDay,
+      to: timeOfDay,
+      // Defaults to now
+      startsAt: isoDateTime.optional(),
+      // Open-ended if omitted
+      endsAt: isoDateTime.optional(),
+    }),
+  ])
+  .superRefine((body, ctx) => {
+    const issue = (path: string, message: MessageKey) =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+    const now = Date.now();
+
+    if (body.type === "change") {
+      if (body.price === undefined && body.isActive === undefined) {
+        issue("price", "menuSchedules.noChanges");
+      }
+      if (body.startsAt.getTime() <= now) {
+        issue("startsAt", "menuSchedules.startsAtInPast");
+      }
+      return;
+    }
+
+    if (body.from >= body.to) {
+      issue("to", "menuSchedules.toNotAfterFrom");
+    }
+    if (body.endsAt && body.endsAt.getTime() <= now) {
+      issue("endsAt", "menuSchedules.endsAtInPast");
+    }
+    if (
+      body.startsAt &&
+      body.endsAt &&
+      body.startsAt.getTime() >= body.endsAt.getTime()
+    ) {
+      issue("endsAt", "menuSchedules.endsAtNotAfterStartsAt");
+    }
+  });
+
+// ?at= on menu reads; defaults to the time of the request
+export const atQuerySchema = z.object({
+  at: isoDateTime.optional(),
+});
+
+// Types
+export type CreateScheduleRequest = z.infer<typeof createScheduleSchema>;
+
+export interface MenuScheduleResponse {
+  id: number;
+  menuId: number;
+  storeId: string | null;
+  type: string;
+  startsAt: string;
+  endsAt: string | null;
+  // "change" only; null where the change leaves the field alone
+  price: number | null;
+  isActive: boolean | null;
+  // "window" only
+  days: string[] | null;
+  from: string | null;
+  to: string | null;
+  // Whether the change is due or the window has started
+  inEffect: boolean;
+  createdBy: string;
+  createdAt: string;
+}
+
+export type CancelScheduleOutcome = "cancelled" | "notFound" | "inEffect";
+
+// The fields schedules act on, as every menu response carries them
+interface Schedulable {
+  price: number;
+  isActive: boolean;
+}
+
+// Helper functions
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+const toTimeOfDay = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(
+    minutes % 60
+  ).padStart(2, "0")}`;
+
+// Weekday (0 = Sunday) and minute of the day in SCHEDULE_TIME_ZONE
+export const localTime = (at: Date) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: SCHEDULE_TIME_ZONE,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((candidate) => candidate.type === type)?.value ?? "";
+  return {
+    day: WEEKDAYS.indexOf(
+      part("weekday").toLowerCase() as (typeof WEEKDAYS)[number]
+    ),
+    minute: Number(part("hour")) * 60 + Number(part("minute")),
+  };
+};
+
+const isInEffect = (schedule: MenuSchedule, now: Date) =>
+  schedule.starts_at.getTime() <= now.getTime();
+
+export const toMenuScheduleResponse = (
+  schedule: MenuSchedule,
+  now: Date
+): MenuScheduleResponse => {
+  const isWindow = schedule.kind === "window";
+  return {
+    id: schedule.id,
+    menuId: schedule.menu_id,
+    storeId: schedule.store_id,
+    type: schedule.kind,
+    startsAt: schedule.starts_at.toISOString(),
+    endsAt: schedule.ends_at?.toISOString() ?? null,
+    price: schedule.price === null ? null : Number(schedule.price),
+    isActive: schedule.status,
+    days: isWindow ? schedule.days.map((day) => WEEKDAYS[day]) : null,
+    from: isWindow ? toTimeOfDay(schedule.start_minute ?? 0) : null,
+    to: isWindow ? toTimeOfDay(schedule.end_minute ?? 0) : null,
+    inEffect: isInEffect(schedule, now),
+    createdBy: schedule.created_by,
+    createdAt: schedule.created_at.toISOString(),
+  };
+};
+
+// Schedules that still matter at `at`: changes not yet written into their
+// row and windows that have not ended. Ones that start after `at` are
+// included when `upcoming` is set.
+const openSchedulesWhere = (
+  storeId: string | null,
+  at: Date,
+  upcoming: boolean
+): Prisma.MenuScheduleWhereInput => ({
+  store_id: storeId,
+  applied_at: null,
+  cancelled_at: null,
+  ...(!upcoming && { starts_at: { lte: at } }),
+  OR: [{ kind: "change" }, { ends_at: null }, { ends_at: { gt: at } }],
+});
+
+// Open schedules of one item, soonest first
+export const listOpenSchedules = (
+  menuId: number,
+  storeId: string | null,
+  now: Date
+) =>
+  prisma.menuSchedule.findMany({
+    where: { menu_id: menuId, ...openSchedulesWhere(storeId, now, true) },
+    orderBy: [{ starts_at: "asc" }, { id: "asc" }],
+  });
+
+// Schedules in effect at `at`, grouped by menu_id, for resolveSchedules.
+// A store's items also follow the windows HQ set on the master item; HQ's
+// changes reach stores through propagation instead.
+export async function findSchedulesInEffect(
+  storeId: string | null,
+  at: Date,
+  menuIds?: number[]
+): Promise<Map<number, MenuSchedule[]>> {
+  const where =
+    storeId === null
+      ? openSchedulesWhere(null, at, false)
+      : {
+          OR: [
+            openSchedulesWhere(storeId, at, false),
+            { ...openSchedulesWhere(null, at, false), kind: "window" },
+          ],
+        };
+  const schedules = await prisma.menuSchedule.findMany({
+    where: {
+      ...where,
+      ...(menuIds && { menu_id: { in: menuIds } }),
+    },
+    orderBy: [{ starts_at: "asc" }, { id: "asc" }],
+  });
+  const byMenu = new Map<number, MenuSchedule[]>();
+  for (const schedule of schedules) {
+    byMenu.set(schedule.menu_id, [
+      ...(byMenu.get(schedule.menu_id) ?? []),
+      schedule,
+    ]);
+  }
+  return byMenu;
+}
+
+const isInsideWindow = (
+  window: MenuSchedule,
+  { day, minute }: ReturnType<typeof localTime>
+) =>
+  window.days.includes(day) &&
+  minute >= (window.start_minute ?? 0) &&
+  minute < (window.end_minute ?? 0);
+
+// Price and availability at `at`: the latest due change overrides the
+// stored value, and an item with windows is only available inside one.
+// HQ's windows and the store's own both apply: a store item is only
+// available inside one of each.
+export function resolveSchedules<T extends Schedulable>(
+  item: T,
+  schedules: MenuSchedule[] | undefined,
+  at: Date
+): T {
+  if (!schedules?.length) {
+    return item;
+  }
+  let { price, isActive } = item;
+  const windows: MenuSchedule[] = [];
+  for (const schedule of schedules) {
+    if (schedule.kind === "window") {
+      windows.push(schedule);
+      continue;
+    }
+    if (schedule.price !== null) {
+      price = Number(schedule.price);
+    }
+    if (schedule.status !== null) {
+      isActive = schedule.status;
+    }
+  }
+  if (isActive && windows.length > 0) {
+    const local = localTime(at);
+    const hqWindows = windows.filter((window) => window.store_id === null);
+    const storeWindows = windows.filter((window) => window.store_id !== null);
+    isActive = [hqWindows, storeWindows].every(
+      (level) =>
+        level.length === 0 ||
+        level.some((window) => isInsideWindow(window, local))
+    );
+  }
+  return { ...item, price, isActive };
+}
+
+export const createSchedule = (
+  menuId: number,
+  storeId: string | null,
+  createdBy: string,
+  body: CreateScheduleRequest
+) =>
+  prisma.menuSchedule.create({
+    data:
+      body.type === "change"
+        ? {
+            menu_id: menuId,
+            store_id: storeId,
+            kind: "change",
+            starts_at: body.startsAt,
+            price: body.price ?? null,
+            status: body.isActive ?? null,
+            created_by: createdBy,
+          }
+        : {
+            menu_id: menuId,
+            store_id: storeId,
+            kind: "window",
+            starts_at: body.startsAt ?? new Date(),
+            ends_at: body.endsAt ?? null,
+            days: [...new Set(body.days)].map((day) => WEEKDAYS.indexOf(day)),
+            start_minute: toMinutes(body.from),
+            end_minute: toMinutes(body.to),
+            created_by: createdBy,
+          },
+  });
+
+// Changes can be cancelled until they are due; windows at any time, which
+// ends them
+export async function cancelSchedule(
+  menuId: number,
+  storeId: string | null,
+  scheduleId: number
+): Promise<CancelScheduleOutcome> {
+  return prisma.$transaction(async (tx) => {
+    const now = new Date();
+    const schedule = await tx.menuSchedule.findFirst({
+      where: {
+        id: scheduleId,
+        menu_id: menuId,
+        ...openSchedulesWhere(storeId, now, true),
+      },
+    });
+    if (!schedule) {
+      return "notFound";
+    }
+    if (schedule.kind === "change" && isInEffect(schedule, now)) {
+      return "inEffect";
+    }
+    // Guard against a concurrent cancel or apply
+    const { count } = await tx.menuSchedule.updateMany({
+      where: { id: scheduleId, applied_at: null, cancelled_at: null },
+      data: { cancelled_at: now },
+    });
+    return count === 0 ? "notFound" : "cancelled";
+  });
+}
+
+// Writes due changes into their rows and marks them applied, so a direct
+// update made afterwards wins over them. Call inside the update's
+// transaction, after the rows are locked. Each write is recorded in the
+// history under the schedule's author.
+export async function applyDueChanges(
+  tx: Prisma.TransactionClient,
+  storeId: string | null,
+  menuIds: number[],
+  now: Date
+): Promise<void> {
+  const due = await tx.menuSchedule.findMany({
+    where: {
+      kind: "change",
+      store_id: storeId,
+      menu_id: { in: menuIds },
+      starts_at: { lte: now },
+      applied_at: null,
+      cancelled_at: null,
+    },
+    orderBy: [{ starts_at: "asc" }, { id: "asc" }],
+  });
+  if (due.length === 0) {
+    return;
+  }
+
+  for (const menuId of new Set(due.map((schedule) => schedule.menu_id))) {
+    const changes = due.filter((schedule) => schedule.menu_id === menuId);
+    const data: { price?: Prisma.Decimal; status?: boolean } = {};
+    for (const change of changes) {
+      if (change.price !== null) {
+        data.price = change.price;
+      }
+      if (change.status !== null) {
+        data.status = change.status;
+      }
+    }
+    const entry = {
+      menuId,
+      storeId,
+      actorId: changes[changes.length - 1].created_by,
+      action: "schedule" as const,
+    };
+
+    if (storeId === null) {
+      const before = await tx.menuItem.findUniqueOrThrow({
+        where: { menu_id: menuId },
+        select: MENU_ITEM_SELECT,
+      });
+      const after = await tx.menuItem.update({
+        where: { menu_id: menuId },
+        data,
+        select: MENU_ITEM_SELECT,
+      });
+      await recordMenuChange(tx, {
+        ...entry,
+        changes: diffFields(before, after, MENU_ITEM_HISTORY_FIELDS),
+      });
+    } else {
+      const where = {
+        store_id_menu_id: { store_id: storeId, menu_id: menuId },
+      };
+      const before = await tx.storeMenuItem.findUnique({ where });
+      if (!before) {
+        continue;
+      }
+      const after = await tx.storeMenuItem.update({
+        where,
+        data: {
+          ...data,
+          ...(data.price !== undefined && { price_override: true }),
+        },
+      });
+      await recordMenuChange(tx, {
+        ...entry,
+        changes: diffFields(before, after, STORE_MENU_ITEM_HISTORY_FIELDS),
+      });
+    }
+  }
+
+  await tx.menuSchedule.updateMany({
+    where: { id: { in: due.map((schedule) => schedule.id) } },
+    data: { applied_at: now },
+  });
+}
@@ -0,0 +1,202 @@
+import { createErrorResponse } from "@/lib/api-response";
+import { isCurrentVersion } from "@/lib/concurrency";
+import type { Translator } from "@/lib/i18n";
+import type { PriceRange, StorePricing } from "@/lib/price-band";
+import { issueMessage } from "@/lib/validation";
+import type { MenuItem, StoreMenuItem } from "@prisma/client";
+import { z } from "zod";
+
+// Schemas
+// Store menu routes: admins and group managers pick the store, store users
+// may omit it
+export const storeQuerySchema = z.object({
+  storeCode: z.string().trim().min(1).optional(),
+});
+
+export const MAX_BULK_ITEMS = 500;
+
+// Body of a bulk PATCH: { items: [...] } with each id at most once
+export const bulkItemsSchema = <T extends z.ZodType<{ id: number }>>(item: T) =>
+  z.object({
+    items: z
+      .array(item)
+      .min(1)
+      .max(MAX_BULK_ITEMS)
+      .superRefine((items, ctx) => {
+        const seen = new Set<number>();
+        items.forEach(({ id }, index) => {
+          if (seen.has(id)) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: [index, "id"],
+              ...issueMessage("validation.duplicateId", { id }),
+            });
+          }
+          seen.add(id);
+        });
+      }),
+  });
+
+// Types
+export type MenuItemRow = Pick<
+  MenuItem,
+  | "menu_id"
+  | "name"
+  | "price"
+  | "status"
+  | "description"
+  | "K"
+  | "other"
+  | "archived_at"
+  | "updated_at"
+>;
+
+// Master menu item as the API returns it
+export interface MenuItemResponse {
+  id: number;
+  menu_code?: string;
+  name: string;
+  price: number;
+  isActive: boolean;
+  description: string | null;
+  K: boolean;
+  other: string | null;
+  archivedAt: string | null;
+  // Send back as If-Match or version when updating
+  version: string;
+}
+
+// Store menu row (StoreMenuItem) as read through Supabase
+export interface StoreMenuItemRow {
+  store_menu_item_id: number;
+  menu_id: number;
+  menu_name: string;
+  price: number;
+  price_override: boolean;
+  status: boolean;
+  updated_at: string;
+}
+
+// Store menu item as the API returns it. menuId identifies the item in
+// /api/menu-items/[id].
+export interface StoreMenuItemResponse {
+  id: number;
+  menuId: number;
+  menu_code?: string;
+  name: string;
+  price: number;
+  // HQ's price, the store's own price (null when it follows HQ) and the
+  // range HQ allows the store (null when unrestricted)
+  hqPrice: number | null;
+  overridePrice: number | null;
+  allowedRange: PriceRange | null;
+  isActive: boolean;
+  // Send back as If-Match or version when updating
+  version: string;
+}
+
+export const STORE_MENU_ITEM_COLUMNS =
+  "store_menu_item_id, menu_id, menu_name, price, price_override, status, updated_at";
+
+// Per-item outcome of a bulk update. Nothing is written unless every item
+// is "updated".
+export interface BulkItemResult<T> {
+  id: number;
+  status: "updated" | "notFound" | "stale";
+  // The updated item, or the current one for "stale"
+  item?: T;
+}
+
+export interface BulkUpdateResult<T> {
+  updated: number;
+  results: BulkItemResult<T>[];
+}
+
+// Prisma select for MenuItemRow
+export const MENU_ITEM_SELECT = {
+  menu_id: true,
+  name: true,
+  price: true,
+  status: true,
+  description: true,
+  K: true,
+  other: true,
+  archived_at: true,
+  updated_at: true,
+} as const;
+
+// Helper functions
+export const toMenuItemResponse = (
+  item: MenuItemRow,
+  menuCode: string | undefined
+): MenuItemResponse => ({
+  id: item.menu_id,
+  menu_code: menuCode,
+  name: item.name,
+  price: Number(item.price),
+  isActive: item.status,
+  description: item.description,
+  K: item.K,
+  other: item.other,
+  archivedAt: item.archived_at?.toISOString() ?? null,
+  version: item.updated_at.toISOString(),
+});
+
+export const toStoreMenuItemResponse = (
+  item: StoreMenuItemRow,
+  menuCode: string | undefined,
+  pricing: StorePricing | undefined
+): StoreMenuItemResponse => ({
+  id: item.store_menu_item_id,
+  menuId: item.menu_id,
+  menu_code: menuCode,
+  name: item.menu_name,
+  price: Number(item.price),
+  hqPrice: pricing?.hqPrice ?? null,
+  overridePrice: item.price_override ? Number(item.price) : null,
+  allowedRange: pricing?.allowedRange ?? null,
+  isActive: item.status,
+  version: item.updated_at,
+});
+
+// The same row as read through Prisma
+export const toStoreMenuItemRow = (row: StoreMenuItem): StoreMenuItemRow => ({
+  store_menu_item_id: row.store_menu_item_id,
+  menu_id: row.menu_id,
+  menu_name: row.menu_name,
+  price: Number(row.price),
+  price_override: row.price_override,
+  status: row.status,
+  updated_at: row.updated_at.toISOString(),
+});
+
+// Items that block a bulk update: ids without a row to update, and rows
+// whose version differs from the one the caller sent
+export const findRejectedItems = (
+  items: { id: number; version?: string }[],
+  versions: Map<number, Date>
+): BulkItemResult<never>[] => {
+  const rejected: BulkItemResult<never>[] = [];
+  for (const { id, version } of items) {
+    const updatedAt = versions.get(id);
+    if (!updatedAt) {
+      rejected.push({ id, status: "notFound" });
+    } else if (version !== undefined && !isCurrentVersion(version, updatedAt)) {
+      rejected.push({ id, status: "stale" });
+    }
+  }
+  return rejected;
+};
+
+// Unknown ids are a validation error; otherwise the batch was stale
+export const createBulkRejectedResponse = <T>(
+  t: Translator,
+  results: BulkItemResult<T>[]
+) =>
+  results.some((result) => result.status === "notFound")
+    ? createErrorResponse(
+        "VALIDATION_FAILED",
+        t("menuBulk.unknownItems"),
+        results
+      )
+    : createErrorResponse("CONFLICT", t("concurrency.staleVersion"), results);
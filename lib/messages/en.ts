@@ -0,0 +1,157 @@
+// English message bundle. Keys named after an error code hold the default
+// message for that code; dotted keys are route-specific.
+export const en = {
+  AUTH_REQUIRED: "Authentication required. Please log in to continue.",
+  INVALID_CREDENTIALS: "Authentication failed",
+  FORBIDDEN: "You do not have permission to perform this action.",
+  NOT_FOUND: "The requested resource was not found",
+  VALIDATION_FAILED: "Request validation failed",
+  BAD_REQUEST: "The request could not be processed",
+  CONFLICT: "The resource was changed by another request",
+  RATE_LIMITED: "Too many attempts. Please try again in {seconds} seconds.",
+  INTERNAL_ERROR: "An unexpected error occurred",
+
+  "auth.unexpected":
+    "An unexpected error occurred while authenticating the request",
+  "auth.refreshFailed": "Your session has expired. Please log in again.",
+  "auth.logoutFailed": "Failed to log out",
+  "auth.loggedOut": "Logged out",
+  "auth.currentPasswordIncorrect": "The current password is incorrect",
+  "auth.passwordChanged": "Password changed",
+  "auth.passwordChangeFailed": "Failed to change the password",
+  "concurrency.staleVersion":
+    "Someone else changed this item since you loaded it. Review the current values and try again.",
+  "validation.invalidJson": "Request body must be valid JSON",
+  "validation.noFieldsToUpdate": "Provide at least one field to update",
+  "validation.companyCodeOrEmail": "Provide either companyCode or email",
+  "validation.invalidCursor": "Invalid cursor",
+  "validation.invalidDateFormat": "Expected a date in YYYY-MM-DD format",
+  "validation.invalidCalendarDate": "Expected a valid calendar date",
+  "validation.duplicateId": "Duplicate id {id}",
+  "validation.required": "Required",
+  "validation.empty": "Must not be empty",
+  "validation.invalidType": "Expected {expected}, received {received}",
+  "validation.invalidEnum": "Expected one of: {options}",
+  "validation.invalidEmail": "Invalid email address",
+  "validation.invalidUuid": "Invalid UUID",
+  "validation.invalidDateTime":
+    "Expected an ISO 8601 timestamp with a time zone",
+  "validation.invalidFormat": "Invalid format",
+  "validation.invalidDate": "Invalid date",
+  "validation.tooShort": "Must be at least {min} characters",
+  "validation.tooLong": "Must be at most {max} characters",
+  "validation.tooFewItems": "Must contain at least {min} items",
+  "validation.tooManyItems": "Must contain at most {max} items",
+  "validation.tooSmall": "Must be at least {min}",
+  "validation.mustBeGreaterThan": "Must be greater than {min}",
+  "validation.tooBig": "Must be at most {max}",
+  "validation.mustBeLessThan": "Must be less than {max}",
+  "validation.unrecognizedKeys": "Unrecognized keys: {keys}",
+  "validation.invalid": "Invalid value",
+  "password.tooShort": "Password must be at least {min} characters",
+  "password.tooLong": "Password must be at most {max} bytes",
+  "password.tooFewClasses":
+    "Password must mix at least {classes} of lower case, upper case, digits and symbols",
+  "password.common": "Password is too common",
+  "password.reused": "New password must differ from the current one",
+
+  "login.companyCodeNotFound": "Company code not found",
+
+  "store.profileNotFound": "Store profile not found. Please contact support.",
+  "store.codeRequired": "Specify the store with storeCode",
+  "store.notFound": "Store not found",
+
+  "menuItems.fetchFailed":
+    "An unexpected error occurred while fetching menu items",
+  "menuItems.updateFailed":
+    "Unable to update menu item. Please try again later.",
+  "menuItems.notFound": "Menu item not found in this store",
+  "menuItems.updateUnexpected":
+    "An unexpected error occurred while updating the menu item",
+
+  "availMenu.fetchFailed": "Error fetching available menu items",
+  "availMenu.notFound": "Available menu item not found",
+  "availMenu.updateFailed": "Error updating available menu item",
+  "availMenu.created": "Menu item created",
+  "availMenu.createFailed": "Error creating menu item",
+  "availMenu.nameTaken": "A menu item with this name already exists",
+  "availMenu.archived": "Menu item archived",
+  "availMenu.archiveFailed": "Error archiving menu item",
+
+  "ingredients.fetchFailed":
+    "Unable to fetch ingredients. Please try again later.",
+  "ingredients.unexpected":
+    "An unexpected error occurred while fetching ingredients",
+  "ingredients.weekDatesRequired":
+    "Please provide week dates to fetch ingredients",
+  "ingredients.tooManyWeekDates": "At most {max} dates are allowed",
+
+  "users.created": "User created",
+  "users.createFailed": "Failed to create the user",
+  "users.profileCreateFailed": "Failed to create the profile",
+  "users.fetchFailed": "Failed to fetch users",
+  "users.notFound": "User not found",
+  "users.adminNotDeletable": "Headquarters users cannot be deleted",
+  "users.deleteFailed": "Failed to delete the user",
+  "users.profileDeleteFailed": "Failed to delete the profile",
+  "users.credentialsUpdateFailed": "Failed to update the login credentials",
+  "users.profileUpdateFailed": "Failed to update the profile",
+  "users.loginCreateFailed": "Failed to register the company code login",
+  "users.loginDeleteFailed": "Failed to remove the company code login",
+  "users.loginUpdateFailed": "Failed to update the company code login",
+  "users.reconcile.incompleteReport":
+    "The profile list could not be read in full, so nothing was purged. Try again.",
+  "users.import.empty": "The CSV file has no data rows",
+  "users.import.tooManyRows": "A CSV file can contain at most {max} rows",
+  "users.import.companyCodeTaken": "This company code is already in use",
+  "users.import.duplicateInFile":
+    "This company code appears more than once in the file",
+  "users.import.completed": "{count} users created",
+  "users.import.unknownGroup": "No group has this name",
+
+  "menuBulk.unknownItems":
+    "Some items do not exist or are archived. Nothing was updated.",
+
+  "menuHistory.fetchFailed": "Failed to fetch the menu change history",
+
+  "menuSchedules.created": "Schedule created",
+  "menuSchedules.createFailed": "Failed to create the schedule",
+  "menuSchedules.fetchFailed": "Failed to fetch schedules",
+  "menuSchedules.notFound": "Schedule not found",
+  "menuSchedules.inEffect":
+    "This change has already taken effect and can no longer be cancelled",
+  "menuSchedules.cancelled": "Schedule cancelled",
+  "menuSchedules.cancelFailed": "Failed to cancel the schedule",
+  "menuSchedules.invalidTime": "Expected a time in HH:MM format",
+  "menuSchedules.noChanges": "Provide price or isActive",
+  "menuSchedules.startsAtInPast": "startsAt must be in the future",
+  "menuSchedules.toNotAfterFrom": "to must be later than from",
+  "menuSchedules.endsAtInPast": "endsAt must be in the future",
+  "menuSchedules.endsAtNotAfterStartsAt": "endsAt must be later than startsAt",
+
+  "propagation.completed": "{created} store items created, {updated} updated",
+  "propagation.failed": "Failed to push the master menu to stores",
+  "propagation.unknownStores": "Some store codes are not store accounts",
+  "propagation.noStores": "The chosen groups have no stores",
+  "propagation.noTargets": "Choose at least one store or group",
+
+  "priceBand.between": "Price must be between {min} and {max}",
+  "priceBand.atLeast": "Price must be at least {min}",
+  "priceBand.atMost": "Price must be at most {max}",
+  "priceBand.notFound": "No price range is set",
+  "priceBand.fetchFailed": "Failed to fetch the price range",
+  "priceBand.saved": "Price range saved",
+  "priceBand.updateFailed": "Failed to save the price range",
+  "priceBand.removed": "Price range removed",
+  "priceBand.noLimits": "Provide min, max or percent",
+  "priceBand.minAboveMax": "min must not be greater than max",
+
+  "groups.created": "Group created",
+  "groups.createFailed": "Failed to create the group",
+  "groups.fetchFailed": "Failed to fetch groups",
+  "groups.notFound": "Group not found",
+  "groups.nameTaken": "A group with this name already exists",
+  "groups.updateFailed": "Failed to update the group",
+  "groups.notEmpty": "The group still has {count} members",
+  "groups.deleteFailed": "Failed to delete the group",
+};
@@ -0,0 +1,158 @@
+import type { MessageBundle } from "@/lib/i18n";
+
+// Japanese message bundle. Must define every key in the English bundle.
+export const ja: MessageBundle = {
+  AUTH_REQUIRED: "認証が必要です",
+  INVALID_CREDENTIALS: "認証に失敗しました",
+  FORBIDDEN: "権限がありません",
+  NOT_FOUND: "対象が見つかりません",
+  VALIDATION_FAILED: "入力内容に誤りがあります",
+  BAD_REQUEST: "リクエストを処理できませんでした",
+  CONFLICT: "他の操作によってデータが更新されています",
+  RATE_LIMITED: "試行回数が多すぎます。{seconds}秒後に再度お試しください。",
+  INTERNAL_ERROR: "サーバーエラーが発生しました",
+
+  "auth.unexpected": "認証処理中にエラーが発生しました",
+  "auth.refreshFailed":
+    "セッションの有効期限が切れました。再度ログインしてください。",
+  "auth.logoutFailed": "ログアウトに失敗しました",
+  "auth.loggedOut": "ログアウトしました",
+  "auth.currentPasswordIncorrect": "現在のパスワードが正しくありません",
+  "auth.passwordChanged": "パスワードを変更しました",
+  "auth.passwordChangeFailed": "パスワードの変更に失敗しました",
+  "concurrency.staleVersion":
+    "読み込み後に他のユーザーがこの項目を変更しました。最新の内容を確認してから再度お試しください。",
+  "validation.invalidJson": "リクエスト本文が正しいJSONではありません",
+  "validation.noFieldsToUpdate": "更新する項目を1つ以上指定してください",
+  "validation.companyCodeOrEmail":
+    "companyCode と email のどちらか一方を指定してください",
+  "validation.invalidCursor": "カーソルが無効です",
+  "validation.invalidDateFormat": "日付は YYYY-MM-DD 形式で指定してください",
+  "validation.invalidCalendarDate": "存在する日付を指定してください",
+  "validation.duplicateId": "ID {id} が重複しています",
+  "validation.required": "必須項目です",
+  "validation.empty": "空にはできません",
+  "validation.invalidType": "{expected} 型の値を指定してください",
+  "validation.invalidEnum": "次のいずれかを指定してください: {options}",
+  "validation.invalidEmail": "メールアドレスの形式が正しくありません",
+  "validation.invalidUuid": "UUID の形式が正しくありません",
+  "validation.invalidDateTime":
+    "タイムゾーン付きの ISO 8601 形式で日時を指定してください",
+  "validation.invalidFormat": "形式が正しくありません",
+  "validation.invalidDate": "日付が正しくありません",
+  "validation.tooShort": "{min}文字以上で入力してください",
+  "validation.tooLong": "{max}文字以内で入力してください",
+  "validation.tooFewItems": "{min}件以上指定してください",
+  "validation.tooManyItems": "{max}件以内で指定してください",
+  "validation.tooSmall": "{min}以上の値を指定してください",
+  "validation.mustBeGreaterThan": "{min}より大きい値を指定してください",
+  "validation.tooBig": "{max}以下の値を指定してください",
+  "validation.mustBeLessThan": "{max}未満の値を指定してください",
+  "validation.unrecognizedKeys": "不明な項目があります: {keys}",
+  "validation.invalid": "値が正しくありません",
+  "password.tooShort": "パスワードは{min}文字以上にしてください",
+  "password.tooLong": "パスワードは{max}バイト以下にしてください",
+  "password.tooFewClasses":
+    "パスワードには英小文字・英大文字・数字・記号のうち{classes}種類以上を含めてください",
+  "password.common": "よく使われるパスワードは使用できません",
+  "password.reused":
+    "新しいパスワードは現在のパスワードと別のものにしてください",
+
+  "login.companyCodeNotFound": "会社コードが見つかりません",
+
+  "store.profileNotFound":
+    "店舗プロフィールが見つかりません。サポートにお問い合わせください。",
+  "store.codeRequired": "storeCodeで店舗を指定してください",
+  "store.notFound": "店舗が見つかりません",
+
+  "menuItems.fetchFailed": "メニューの取得中にエラーが発生しました",
+  "menuItems.updateFailed":
+    "メニューを更新できませんでした。しばらくしてから再度お試しください。",
+  "menuItems.notFound": "この店舗のメニューに見つかりません",
+  "menuItems.updateUnexpected": "メニューの更新中にエラーが発生しました",
+
+  "availMenu.fetchFailed": "提供メニューの取得に失敗しました",
+  "availMenu.notFound": "提供メニューが見つかりません",
+  "availMenu.updateFailed": "提供メニューの更新に失敗しました",
+  "availMenu.created": "メニューを作成しました",
+  "availMenu.createFailed": "メニューの作成に失敗しました",
+  "availMenu.nameTaken": "同じ名前のメニューが既に存在します",
+  "availMenu.archived": "メニューをアーカイブしました",
+  "availMenu.archiveFailed": "メニューのアーカイブに失敗しました",
+
+  "ingredients.fetchFailed":
+    "食材を取得できませんでした。しばらくしてから再度お試しください。",
+  "ingredients.unexpected": "食材の取得中にエラーが発生しました",
+  "ingredients.weekDatesRequired": "食材を取得する週の日付を指定してください",
+  "ingredients.tooManyWeekDates": "指定できる日付は{max}件までです",
+
+  "users.created": "ユーザーを作成しました",
+  "users.createFailed": "ユーザーの作成に失敗しました",
+  "users.profileCreateFailed": "プロファイルの作成に失敗しました",
+  "users.fetchFailed": "ユーザーの取得に失敗しました",
+  "users.notFound": "ユーザーが見つかりません",
+  "users.adminNotDeletable": "本部ユーザーは削除できません",
+  "users.deleteFailed": "ユーザーの削除に失敗しました",
+  "users.profileDeleteFailed": "プロフィールの削除に失敗しました",
+  "users.credentialsUpdateFailed": "認証情報の更新に失敗しました",
+  "users.profileUpdateFailed": "プロフィールの更新に失敗しました",
+  "users.loginCreateFailed": "会社コードのログイン登録に失敗しました",
+  "users.loginDeleteFailed": "会社コードのログイン削除に失敗しました",
+  "users.loginUpdateFailed": "会社コードのログイン更新に失敗しました",
+  "users.reconcile.incompleteReport":
+    "プロフィールを全件読み込めなかったため、削除を中止しました。もう一度お試しください。",
+  "users.import.empty": "CSVファイルにデータ行がありません",
+  "users.import.tooManyRows": "CSVファイルは最大{max}行までです",
+  "users.import.companyCodeTaken": "この会社コードは既に使用されています",
+  "users.import.duplicateInFile": "この会社コードはファイル内で重複しています",
+  "users.import.completed": "{count}件のユーザーを作成しました",
+  "users.import.unknownGroup": "この名前のグループはありません",
+
+  "menuBulk.unknownItems":
+    "存在しないかアーカイブ済みのメニューが含まれています。何も更新されていません。",
+
+  "menuHistory.fetchFailed": "メニューの変更履歴の取得に失敗しました",
+
+  "menuSchedules.created": "予約を作成しました",
+  "menuSchedules.createFailed": "予約の作成に失敗しました",
+  "menuSchedules.fetchFailed": "予約の取得に失敗しました",
+  "menuSchedules.notFound": "予約が見つかりません",
+  "menuSchedules.inEffect": "この変更は既に適用されているため取り消せません",
+  "menuSchedules.cancelled": "予約を取り消しました",
+  "menuSchedules.cancelFailed": "予約の取り消しに失敗しました",
+  "menuSchedules.invalidTime": "時刻は HH:MM 形式で指定してください",
+  "menuSchedules.noChanges": "price または isActive を指定してください",
+  "menuSchedules.startsAtInPast": "startsAt には未来の日時を指定してください",
+  "menuSchedules.toNotAfterFrom": "to は from より後の時刻にしてください",
+  "menuSchedules.endsAtInPast": "endsAt には未来の日時を指定してください",
+  "menuSchedules.endsAtNotAfterStartsAt":
+    "endsAt は startsAt より後の日時にしてください",
+
+  "propagation.completed":
+    "店舗メニューを{created}件作成し、{updated}件更新しました",
+  "propagation.failed": "本部メニューの店舗への反映に失敗しました",
+  "propagation.unknownStores":
+    "店舗アカウントではない会社コードが含まれています",
+  "propagation.noStores": "選択したグループに店舗がありません",
+  "propagation.noTargets": "店舗またはグループを1つ以上選択してください",
+
+  "priceBand.between": "価格は{min}から{max}の範囲で指定してください",
+  "priceBand.atLeast": "価格は{min}以上で指定してください",
+  "priceBand.atMost": "価格は{max}以下で指定してください",
+  "priceBand.notFound": "価格範囲が設定されていません",
+  "priceBand.fetchFailed": "価格範囲の取得に失敗しました",
+  "priceBand.saved": "価格範囲を保存しました",
+  "priceBand.updateFailed": "価格範囲の保存に失敗しました",
+  "priceBand.removed": "価格範囲を削除しました",
+  "priceBand.noLimits": "min、max、percent のいずれかを指定してください",
+  "priceBand.minAboveMax": "min は max 以下にしてください",
+
+  "groups.created": "グループを作成しました",
+  "groups.createFailed": "グループの作成に失敗しました",
+  "groups.fetchFailed": "グループの取得に失敗しました",
+  "groups.notFound": "グループが見つかりません",
+  "groups.nameTaken": "同じ名前のグループが既に存在します",
+  "groups.updateFailed": "グループの更新に失敗しました",
+  "groups.notEmpty": "グループにはまだ{count}件のメンバーがいます",
+  "groups.deleteFailed": "グループの削除に失敗しました",
+};
@@ -0,0 +1,84 @@
+import { z } from "zod";
+
+// Types
+
+// Position after the last row of a page: its sort value and id, so rows
+// sharing a sort value are neither skipped nor repeated
+export interface Cursor {
+  value: string;
+  id: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  // Rows matching the filters across all pages
+  total: number;
+  // Pass as ?cursor= to get the next page; null on the last page
+  nextCursor: string | null;
+}
+
+// Helper functions
+export const encodeCursor = (cursor: Cursor): string =>
+  Buffer.from(JSON.stringify(cursor)).toString("base64url");
+
+const decodedCursorSchema = z.object({
+  value: z.string(),
+  id: z.string().min(1),
+});
+
+// Query parameter holding a cursor from a previous page
+export const cursorParam = z.string().transform((value, ctx) => {
+  try {
+    const decoded = JSON.parse(Buffer.from(value, "base64url").toString());
+    return decodedCursorSchema.parse(decoded);
+  } catch {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "validation.invalidCursor",
+    });
+    return z.NEVER;
+  }
+});
+
+export const limitParam = (defaultLimit: number, maxLimit: number) =>
+  z.coerce.number().int().min(1).max(maxLimit).default(defaultLimit);
+
+// Quotes a value for a PostgREST filter so commas and parentheses in it
+// are not read as syntax
+const quote = (value: string) =>
+  `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+// PostgREST `or` filter selecting the rows after the cursor when ordering
+// by `column` and then `id`
+export const keysetFilter = (
+  column: string,
+  cursor: Cursor,
+  ascending: boolean
+): string => {
+  const op = ascending ? "gt" : "lt";
+  const value = quote(cursor.value);
+  return `${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${quote(cursor.id)})`;
+};
+
+// Escapes LIKE wildcards so a search term matches literally
+export const escapeLike = (term: string): string =>
+  term.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+// Splits a result fetched with limit + 1 rows into a page
+export const toPage = <T extends { id: string }>(
+  rows: T[],
+  limit: number,
+  total: number,
+  sortValue: (row: T) => string
+): Page<T> => {
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    total,
+    nextCursor:
+      rows.length > limit && last
+        ? encodeCursor({ value: sortValue(last), id: last.id })
+        : null,
+  };
+};
@@ -0,0 +1,108 @@
+import { COMMON_PASSWORDS } from "@/lib/common-passwords";
+import { issueMessage } from "@/lib/validation";
+import { z } from "zod";
+
+// Types
+export interface PasswordPolicy {
+  minLength: number;
+  // Supabase hashes passwords with bcrypt, which ignores bytes after 72
+  maxLength: number;
+  // How many of lower case, upper case, digits and symbols must appear
+  minCharacterClasses: number;
+  rejectCommon: boolean;
+}
+
+export type PasswordIssue =
+  "tooShort" | "tooLong" | "tooFewClasses" | "common" | "reused";
+
+interface PasswordContext {
+  // The password being replaced, when the caller knows it
+  current?: string;
+}
+
+// Configuration
+const readInt = (name: string, fallback: number, min: number, max: number) => {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value >= min && value <= max
+    ? value
+    : fallback;
+};
+
+export const PASSWORD_POLICY: PasswordPolicy = {
+  minLength: readInt("PASSWORD_MIN_LENGTH", 10, 6, 72),
+  maxLength: 72,
+  minCharacterClasses: readInt("PASSWORD_MIN_CHARACTER_CLASSES", 3, 1, 4),
+  rejectCommon: process.env.PASSWORD_REJECT_COMMON !== "false",
+};
+
+const CHARACTER_CLASSES = [/[a-z]/, /[A-Z]/, /\d/, /[^a-zA-Z\d]/];
+
+// Helper functions
+export function checkPassword(
+  password: string,
+  context: PasswordContext = {},
+  policy: PasswordPolicy = PASSWORD_POLICY
+): PasswordIssue[] {
+  const issues: PasswordIssue[] = [];
+  if (password.length < policy.minLength) {
+    issues.push("tooShort");
+  }
+  if (new TextEncoder().encode(password).length > policy.maxLength) {
+    issues.push("tooLong");
+  }
+  const classes = CHARACTER_CLASSES.filter((pattern) => pattern.test(password));
+  if (classes.length < policy.minCharacterClasses) {
+    issues.push("tooFewClasses");
+  }
+  if (policy.rejectCommon && COMMON_PASSWORDS.has(password.toLowerCase())) {
+    issues.push("common");
+  }
+  if (context.current !== undefined && password === context.current) {
+    issues.push("reused");
+  }
+  return issues;
+}
+
+// Message key and params for a zod issue; validateBody translates them
+export const describePasswordIssue = (
+  issue: PasswordIssue,
+  policy: PasswordPolicy = PASSWORD_POLICY
+) =>
+  issueMessage(`password.${issue}`, {
+    issue,
+    min: policy.minLength,
+    max: policy.maxLength,
+    classes: policy.minCharacterClasses,
+  });
+
+// Zod schema for any field that sets a password
+export const passwordSchema = z.string().superRefine((value, ctx) => {
+  for (const issue of checkPassword(value)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      ...describePasswordIssue(issue),
+    });
+  }
+});
+
+// Letters and digits without look-alikes such as 0/O and 1/l/I, plus
+// symbols that are easy to type on a phone keyboard
+const PASSWORD_ALPHABET =
+  "ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789!#%+-=?@";
+
+const GENERATED_PASSWORD_LENGTH = 16;
+
+// Random password that satisfies the current policy
+export const generatePassword = (): string => {
+  const length = Math.max(GENERATED_PASSWORD_LENGTH, PASSWORD_POLICY.minLength);
+  for (;;) {
+    const bytes = crypto.getRandomValues(new Uint8Array(length));
+    const password = Array.from(
+      bytes,
+      (byte) => PASSWORD_ALPHABET[byte % PASSWORD_ALPHABET.length]
+    ).join("");
+    if (checkPassword(password).length === 0) {
+      return password;
+    }
+  }
+};
@@ -0,0 +1,135 @@
+import { createErrorResponse, createSuccessResponse } from "@/lib/api-response";
+import { withAuth, type AuthContext } from "@/lib/auth";
+import type { MessageKey } from "@/lib/i18n";
+import {
+  priceBandSchema,
+  toPriceBandData,
+  toPriceBandResponse,
+  type PriceBandResponse,
+} from "@/lib/price-band";
+import { prisma } from "@/lib/prisma";
+import { validateBody } from "@/lib/validation";
+
+// Types
+// What a band belongs to: one master item or one group
+export type PriceBandTarget = { menu_id: number } | { group_id: string };
+
+export interface PriceBandScope<P, T extends PriceBandTarget> {
+  // The band's owner from the route params; null when the id is malformed
+  target: (params: P) => T | null;
+  // Read check on top of the role check, e.g. a group manager's own group
+  canRead?: (auth: AuthContext, params: P) => boolean;
+  // Whether the owner exists and can take a band
+  ownerExists: (target: T) => Promise<boolean>;
+  ownerNotFound: MessageKey;
+}
+
+// Route handlers
+// GET, PUT and DELETE of .../price-band for one kind of owner. Everyone
+// who can manage stores may read a band; only admins change them.
+export function createPriceBandHandlers<P, T extends PriceBandTarget>(
+  scope: PriceBandScope<P, T>
+) {
+  const GET = withAuth<P>(
+    { roles: ["admin", "group_manager"] },
+    async (request, { auth, params, t }) => {
+      try {
+        if (scope.canRead && !scope.canRead(auth, params)) {
+          return createErrorResponse("FORBIDDEN", t("FORBIDDEN"));
+        }
+        const target = scope.target(params);
+        if (!target) {
+          return createErrorResponse("NOT_FOUND", t("priceBand.notFound"));
+        }
+
+        const band = await prisma.priceBand.findUnique({ where: target });
+        if (!band) {
+          return createErrorResponse("NOT_FOUND", t("priceBand.notFound"));
+        }
+
+        return createSuccessResponse<PriceBandResponse>(
+          toPriceBandResponse(band)
+        );
+      } catch (error) {
+        console.error("Failed to fetch price band:", error);
+        return createErrorResponse(
+          "INTERNAL_ERROR",
+          t("priceBand.fetchFailed")
+        );
+      }
+    }
+  );
+
+  // Sets the band, replacing any previous one. Existing store prices are
+  // left alone; the band applies to their next change.
+  const PUT = withAuth<P>(
+    { roles: ["admin"] },
+    async (request, { auth, params, t }) => {
+      try {
+        const target = scope.target(params);
+        if (!target) {
+          return createErrorResponse("NOT_FOUND", t(scope.ownerNotFound));
+        }
+
+        const validation = await validateBody(request, priceBandSchema);
+        if (!validation.success) {
+          return validation.response;
+        }
+
+        if (!(await scope.ownerExists(target))) {
+          return createErrorResponse("NOT_FOUND", t(scope.ownerNotFound));
+        }
+
+        const data = {
+          ...toPriceBandData(validation.data),
+          updated_by: auth.userId,
+        };
+        const band = await prisma.priceBand.upsert({
+          where: target,
+          create: { ...target, ...data },
+          update: data,
+        });
+
+        return createSuccessResponse<PriceBandResponse>(
+          toPriceBandResponse(band),
+          { message: t("priceBand.saved") }
+        );
+      } catch (error) {
+        console.error("Failed to save price band:", error);
+        return createErrorResponse(
+          "INTERNAL_ERROR",
+          t("priceBand.updateFailed")
+        );
+      }
+    }
+  );
+
+  const DELETE = withAuth<P>(
+    { roles: ["admin"] },
+    async (request, { params, t }) => {
+      try {
+        const target = scope.target(params);
+        if (!target) {
+          return createErrorResponse("NOT_FOUND", t("priceBand.notFound"));
+        }
+
+        const { count } = await prisma.priceBand.deleteMany({ where: target });
+        if (count === 0) {
+          return createErrorResponse("NOT_FOUND", t("priceBand.notFound"));
+        }
+
+        return createSuccessResponse(undefined, {
+          message: t("priceBand.removed"),
+        });
+      } catch (error) {
+        console.error("Failed to remove price band:", error);
+        return createErrorResponse(
+          "INTERNAL_ERROR",
+          t("priceBand.updateFailed")
+        );
+      }
+    }
+  );
+
+  return { GET, PUT, DELETE };
+}
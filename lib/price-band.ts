@@ -0,0 +1,165 @@
+import type { Translator } from "@/lib/i18n";
+import { findSchedulesInEffect, resolveSchedules } from "@/lib/menu-schedule";
+import { prisma } from "@/lib/prisma";
+import type { FieldError } from "@/lib/validation";
+import { Prisma, type PriceBand } from "@prisma/client";
+import { z } from "zod";
+
+// Schemas
+// Body of PUT .../price-band. null or a missing field removes that limit.
+export const priceBandSchema = z
+  .object({
+    min: z.number().nonnegative().nullable().optional(),
+    max: z.number().nonnegative().nullable().optional(),
+    // Allowed deviation from the HQ price, in percent either way
+    percent: z.number().positive().max(100).nullable().optional(),
+  })
+  .refine(
+    (band) => band.min != null || band.max != null || band.percent != null,
+    {
+      message: "priceBand.noLimits",
+    }
+  )
+  .refine(
+    (band) => band.min == null || band.max == null || band.min <= band.max,
+    {
+      message: "priceBand.minAboveMax",
+      path: ["min"],
+    }
+  );
+
+// Types
+export type PriceBandRequest = z.infer<typeof priceBandSchema>;
+
+export interface PriceBandResponse {
+  min: number | null;
+  max: number | null;
+  percent: number | null;
+  updatedAt: string;
+}
+
+// Prices a store may set; null bounds are open
+export interface PriceRange {
+  min: number | null;
+  max: number | null;
+}
+
+// HQ price and allowed range of one item for one store. allowedRange is
+// null when no band applies.
+export interface StorePricing {
+  hqPrice: number;
+  allowedRange: PriceRange | null;
+}
+
+// Helper functions
+const toNumber = (value: Prisma.Decimal | null) =>
+  value === null ? null : Number(value);
+
+export const toPriceBandResponse = (band: PriceBand): PriceBandResponse => ({
+  min: toNumber(band.min_price),
+  max: toNumber(band.max_price),
+  percent: toNumber(band.percent),
+  updatedAt: band.updated_at.toISOString(),
+});
+
+export const toPriceBandData = (band: PriceBandRequest) => ({
+  min_price: band.min ?? null,
+  max_price: band.max ?? null,
+  percent: band.percent ?? null,
+});
+
+// The band's limits for one HQ price. A percentage band is rounded inwards
+// to whole cents.
+export const toPriceRange = (
+  band: PriceBand,
+  hqPrice: Prisma.Decimal
+): PriceRange => {
+  let min = band.min_price;
+  let max = band.max_price;
+  if (band.percent !== null) {
+    const low = hqPrice
+      .mul(new Prisma.Decimal(100).sub(band.percent))
+      .div(100)
+      .toDecimalPlaces(2, Prisma.Decimal.ROUND_UP);
+    const high = hqPrice
+      .mul(new Prisma.Decimal(100).add(band.percent))
+      .div(100)
+      .toDecimalPlaces(2, Prisma.Decimal.ROUND_DOWN);
+    min = min === null ? low : Prisma.Decimal.max(min, low);
+    max = max === null ? high : Prisma.Decimal.min(max, high);
+  }
+  return { min: toNumber(min), max: toNumber(max) };
+};
+
+export const isWithinRange = (price: number, range: PriceRange | null) =>
+  range === null ||
+  ((range.min === null || price >= range.min) &&
+    (range.max === null || price <= range.max));
+
+// e.g. "Price must be between 900 and 1100"
+export const describePriceRange = (t: Translator, range: PriceRange) => {
+  if (range.min !== null && range.max !== null) {
+    return t("priceBand.between", { min: range.min, max: range.max });
+  }
+  return range.min !== null
+    ? t("priceBand.atLeast", { min: range.min })
+    : t("priceBand.atMost", { max: range.max ?? 0 });
+};
+
+// A field error, in the shape validateBody reports, when a store price is
+// outside the item's range
+export const checkStorePrice = (
+  t: Translator,
+  field: string,
+  price: number | undefined,
+  pricing: StorePricing | undefined
+): FieldError | null =>
+  price === undefined ||
+  !pricing?.allowedRange ||
+  isWithinRange(price, pricing.allowedRange)
+    ? null
+    : { field, message: describePriceRange(t, pricing.allowedRange) };
+
+// An item's own band wins over its group's band
+export const toStorePricing = (
+  hqPrice: number,
+  itemBand: PriceBand | null,
+  groupBand: PriceBand | null
+): StorePricing => {
+  const band = itemBand ?? groupBand;
+  return {
+    hqPrice,
+    allowedRange: band ? toPriceRange(band, new Prisma.Decimal(hqPrice)) : null,
+  };
+};
+
+// Pricing of the given master items (all of them when omitted) for a store
+// in the given group. The HQ price is the effective one at `at`, with due
+// scheduled changes resolved as the master menu reads do.
+export async function findStorePricing(
+  groupId: string | null,
+  menuIds?: number[],
+  at: Date = new Date()
+): Promise<Map<number, StorePricing>> {
+  const [items, groupBand, schedules] = await Promise.all([
+    prisma.menuItem.findMany({
+      where: menuIds ? { menu_id: { in: menuIds } } : {},
+      select: { menu_id: true, price: true, status: true, priceBand: true },
+    }),
+    groupId
+      ? prisma.priceBand.findUnique({ where: { group_id: groupId } })
+      : null,
+    findSchedulesInEffect(null, at, menuIds),
+  ]);
+
+  return new Map(
+    items.map((item) => {
+      const { price } = resolveSchedules(
+        { price: Number(item.price), isActive: item.status },
+        schedules.get(item.menu_id),
+        at
+      );
+      return [item.menu_id, toStorePricing(price, item.priceBand, groupBand)];
+    })
+  );
+}
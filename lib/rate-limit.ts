@@ -0,0 +1,294 @@
+import { createErrorResponse } from "@/lib/api-response";
+import type { Translator } from "@/lib/i18n";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+
+// Types
+export interface RateLimitEntry {
+  count: number;
+  windowStart: number;
+  blockedUntil: number | null;
+}
+
+// Where counters are kept. Use the in-memory store for tests and local
+// development, the Postgres store when running more than one instance.
+// Counter updates must be atomic so that concurrent requests cannot read
+// the same count.
+export interface RateLimitStore {
+  get(key: string): Promise<RateLimitEntry | null>;
+  // Adds one hit, starting a new window when the current one is older than
+  // windowMs, and returns the entry as it is after the hit. A block
+  // outlives its window.
+  increment(
+    key: string,
+    windowMs: number,
+    now: number
+  ): Promise<RateLimitEntry>;
+  // Takes back one hit
+  decrement(key: string): Promise<void>;
+  // Blocks the key until the given time unless it is blocked for longer
+  block(key: string, until: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  // Deletes entries last hit before `before` that are not blocked at `now`
+  prune(before: number, now: number): Promise<void>;
+}
+
+export interface RateLimitPolicy {
+  // Hits allowed inside one window before any delay is imposed
+  freeHits: number;
+  // Hits within a window are forgotten after this long. Must be shorter
+  // than RATE_LIMIT_RETENTION_MS.
+  windowMs: number;
+  // Delay after the first hit over freeHits; doubles with every further hit
+  baseDelayMs: number;
+  // Hits within a window that trigger a lockout
+  lockoutHits: number;
+  lockoutMs: number;
+}
+
+export type RateLimitResult =
+  { allowed: true } | { allowed: false; retryAfterSeconds: number };
+
+export interface RateLimiter {
+  check(key: string): Promise<RateLimitResult>;
+  hit(key: string): Promise<RateLimitResult>;
+  consume(key: string): Promise<RateLimitResult>;
+  refund(key: string): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+// Stores
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const entries = new Map<string, RateLimitEntry>();
+  const lastHits = new Map<string, number>();
+  return {
+    get: async (key) => entries.get(key) ?? null,
+    increment: async (key, windowMs, now) => {
+      const entry = entries.get(key);
+      const next =
+        entry && now - entry.windowStart < windowMs
+          ? { ...entry, count: entry.count + 1 }
+          : {
+              count: 1,
+              windowStart: now,
+              blockedUntil: entry?.blockedUntil ?? null,
+            };
+      entries.set(key, next);
+      lastHits.set(key, now);
+      return next;
+    },
+    decrement: async (key) => {
+      const entry = entries.get(key);
+      if (entry && entry.count > 0) {
+        entries.set(key, { ...entry, count: entry.count - 1 });
+      }
+    },
+    block: async (key, until) => {
+      const entry = entries.get(key);
+      if (entry && (entry.blockedUntil ?? 0) < until) {
+        entries.set(key, { ...entry, blockedUntil: until });
+      }
+    },
+    delete: async (key) => {
+      entries.delete(key);
+      lastHits.delete(key);
+    },
+    prune: async (before, now) => {
+      for (const [key, entry] of entries) {
+        if (
+          (lastHits.get(key) ?? 0) < before &&
+          (entry.blockedUntil ?? 0) <= now
+        ) {
+          entries.delete(key);
+          lastHits.delete(key);
+        }
+      }
+    },
+  };
+}
+
+const toRateLimitEntry = (row: {
+  count: number;
+  window_start: Date;
+  blocked_until: Date | null;
+}): RateLimitEntry => ({
+  count: row.count,
+  windowStart: row.window_start.getTime(),
+  blockedUntil: row.blocked_until?.getTime() ?? null,
+});
+
+// Each write is a single conditional statement, so Postgres serialises
+// concurrent hits on the same row
+export function createPrismaRateLimitStore(): RateLimitStore {
+  return {
+    get: async (key) => {
+      const row = await prisma.rateLimitEntry.findUnique({ where: { key } });
+      return row ? toRateLimitEntry(row) : null;
+    },
+    increment: async (key, windowMs, now) => {
+      // Restart an expired window first; only one concurrent request can
+      // match, the others see the fresh window_start
+      await prisma.rateLimitEntry.updateMany({
+        where: { key, window_start: { lte: new Date(now - windowMs) } },
+        data: { count: 0, window_start: new Date(now) },
+      });
+      const row = await prisma.rateLimitEntry.upsert({
+        where: { key },
+        create: { key, count: 1, window_start: new Date(now) },
+        update: { count: { increment: 1 } },
+      });
+      return toRateLimitEntry(row);
+    },
+    decrement: async (key) => {
+      await prisma.rateLimitEntry.updateMany({
+        where: { key, count: { gt: 0 } },
+        data: { count: { decrement: 1 } },
+      });
+    },
+    block: async (key, until) => {
+      await prisma.rateLimitEntry.updateMany({
+        where: {
+          key,
+          OR: [
+            { blocked_until: null },
+            { blocked_until: { lt: new Date(until) } },
+          ],
+        },
+        data: { blocked_until: new Date(until) },
+      });
+    },
+    delete: async (key) => {
+      await prisma.rateLimitEntry.deleteMany({ where: { key } });
+    },
+    prune: async (before, now) => {
+      await prisma.rateLimitEntry.deleteMany({
+        where: {
+          updated_at: { lt: new Date(before) },
+          OR: [
+            { blocked_until: null },
+            { blocked_until: { lte: new Date(now) } },
+          ],
+        },
+      });
+    },
+  };
+}
+
+// RATE_LIMIT_STORE=memory keeps counters in process, e.g. for tests
+const defaultStore: RateLimitStore =
+  process.env.RATE_LIMIT_STORE === "memory"
+    ? createMemoryRateLimitStore()
+    : createPrismaRateLimitStore();
+
+// Limiter
+// Keys come from caller input such as IPs and login names, so entries that
+// have gone quiet are deleted rather than kept forever
+export const RATE_LIMIT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+
+const toResult = (blockedUntil: number | null, now: number): RateLimitResult =>
+  blockedUntil !== null && blockedUntil > now
+    ? {
+        allowed: false,
+        retryAfterSeconds: Math.ceil((blockedUntil - now) / 1000),
+      }
+    : { allowed: true };
+
+export function createRateLimiter(
+  policy: RateLimitPolicy,
+  store: RateLimitStore = defaultStore
+): RateLimiter {
+  let prunedAt = 0;
+
+  // Runs at most once per PRUNE_INTERVAL_MS per limiter. A failed cleanup
+  // is logged and does not fail the request.
+  const prune = async (now: number) => {
+    if (now - prunedAt < PRUNE_INTERVAL_MS) {
+      return;
+    }
+    prunedAt = now;
+    try {
+      await store.prune(now - RATE_LIMIT_RETENTION_MS, now);
+    } catch (error) {
+      console.error("Rate limit cleanup failed:", error);
+    }
+  };
+
+  const increment = async (key: string, now: number) => {
+    await prune(now);
+    return store.increment(key, policy.windowMs, now);
+  };
+
+  // Whether the key is currently blocked; does not count as a hit
+  const check = async (key: string): Promise<RateLimitResult> => {
+    const entry = await store.get(key);
+    return toResult(entry?.blockedUntil ?? null, Date.now());
+  };
+
+  // Blocks the key with exponential backoff once the count goes over the
+  // free allowance
+  const blockFor = async (key: string, count: number, now: number) => {
+    let blockedUntil: number | null = null;
+    if (count >= policy.lockoutHits) {
+      blockedUntil = now + policy.lockoutMs;
+    } else if (count > policy.freeHits) {
+      const delay = policy.baseDelayMs * 2 ** (count - policy.freeHits - 1);
+      blockedUntil = now + Math.min(delay, policy.lockoutMs);
+    }
+    if (blockedUntil !== null) {
+      await store.block(key, blockedUntil);
+    }
+    return blockedUntil;
+  };
+
+  // Counts a hit (e.g. a failed login) after the fact
+  const hit = async (key: string): Promise<RateLimitResult> => {
+    const now = Date.now();
+    const entry = await increment(key, now);
+    const blockedUntil = await blockFor(key, entry.count, now);
+    return toResult(Math.max(blockedUntil ?? 0, entry.blockedUntil ?? 0), now);
+  };
+
+  // Counts the attempt before it is made and refuses it if the key was
+  // already blocked. Concurrent attempts each get their own count, so a
+  // burst cannot slip through before the first failure is recorded.
+  const consume = async (key: string): Promise<RateLimitResult> => {
+    const now = Date.now();
+    const entry = await increment(key, now);
+    await blockFor(key, entry.count, now);
+    return toResult(entry.blockedUntil, now);
+  };
+
+  // Takes back an attempt that turned out to be legitimate
+  const refund = (key: string) => store.decrement(key);
+
+  const reset = (key: string) => store.delete(key);
+
+  return { check, hit, consume, refund, reset };
+}
+
+// Helper functions
+// Clients can send their own X-Forwarded-For, so only the last entry, the
+// one added by our proxy, can be trusted
+export const getClientIp = (request: Request): string => {
+  const forwardedFor = request.headers.get("x-forwarded-for");
+  return (
+    forwardedFor?.split(",").at(-1)?.trim() ||
+    request.headers.get("x-real-ip") ||
+    "unknown"
+  );
+};
+
+export const createRateLimitedResponse = (
+  t: Translator,
+  retryAfterSeconds: number
+): NextResponse => {
+  const response = createErrorResponse(
+    "RATE_LIMITED",
+    t("RATE_LIMITED", { seconds: retryAfterSeconds }),
+    { retryAfterSeconds }
+  );
+  response.headers.set("Retry-After", String(retryAfterSeconds));
+  return response;
+};
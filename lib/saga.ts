@@ -0,0 +1,60 @@
+// Types
+export interface SagaStep<C, N extends string = string> {
+  name: N;
+  run: (context: C) => Promise<void>;
+  // Undoes run() if a later step fails. Steps that cannot be undone (such
+  // as a password change) should come last and leave this out.
+  compensate?: (context: C) => Promise<void>;
+}
+
+export type SagaResult<C, N extends string = string> =
+  | { success: true; context: C }
+  | { success: false; failedStep: N; error: unknown; context: C };
+
+// Runs the steps in order. When one fails, the completed steps are
+// compensated in reverse order. A failing compensation is logged and the
+// rest still run; whatever is left behind shows up in the reconcile report.
+export async function runSaga<C, N extends string>(
+  name: string,
+  steps: SagaStep<C, N>[],
+  context: C
+): Promise<SagaResult<C, N>> {
+  const completed: SagaStep<C, N>[] = [];
+
+  for (const step of steps) {
+    try {
+      await step.run(context);
+      completed.push(step);
+    } catch (error) {
+      console.error(`Saga ${name} failed at ${step.name}:`, error);
+      for (const done of completed.reverse()) {
+        try {
+          await done.compensate?.(context);
+        } catch (compensationError) {
+          console.error(
+            `Saga ${name} could not compensate ${done.name}:`,
+            compensationError
+          );
+        }
+      }
+      return { success: false, failedStep: step.name, error, context };
+    }
+  }
+
+  return { success: true, context };
+}
+
+// Turns a Supabase { error } result into a thrown error for use in steps
+export const throwOnError = <T extends { error: unknown }>(result: T): T => {
+  if (result.error) {
+    throw result.error;
+  }
+  return result;
+};
+
+export const errorMessage = (error: unknown): string | undefined => {
+  if (error && typeof error === "object" && "message" in error) {
+    return String(error.message);
+  }
+  return undefined;
+};
@@ -0,0 +1,46 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+// Ensure environment variables are set
+if (!process.env.NEXT_PUBLIC_SUPABASE_URL) {
+  throw new Error("Missing env.NEXT_PUBLIC_SUPABASE_URL");
+}
+if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+  throw new Error("Missing env.SUPABASE_SERVICE_ROLE_KEY");
+}
+
+const serverAuthOptions = {
+  autoRefreshToken: false,
+  persistSession: false,
+  detectSessionInUrl: false,
+};
+
+// Supabase admin client (service role, bypasses RLS)
+export const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_ROLE_KEY,
+  { auth: serverAuthOptions }
+);
+
+const getAnonKey = (): string => {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+    throw new Error("Missing env.NEXT_PUBLIC_SUPABASE_ANON_KEY");
+  }
+  return process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+};
+
+// Supabase client acting as the holder of a bearer access token, so row
+// level security applies exactly as it does for cookie sessions
+export function createUserClient(accessToken: string): SupabaseClient {
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, getAnonKey(), {
+    auth: serverAuthOptions,
+    global: { headers: { Authorization: `Bearer ${accessToken}` } },
+  });
+}
+
+// Supabase client with no session of its own, e.g. for checking a password
+// without touching the caller's session cookies
+export function createAnonClient(): SupabaseClient {
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, getAnonKey(), {
+    auth: serverAuthOptions,
+  });
+}
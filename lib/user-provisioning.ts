@@ -0,0 +1,471 @@
+import type { Role } from "@/lib/auth";
+import { runSaga, throwOnError, type SagaResult } from "@/lib/saga";
+import { supabaseAdmin } from "@/lib/supabase";
+import type { User } from "@supabase/supabase-js";
+
+// Types
+export interface ProfileRow {
+  id: string;
+  company_code: string;
+  company_id: string | null;
+  role: string;
+  store_name: string | null;
+  group_id: string | null;
+  email: string | null;
+}
+
+// The profile columns a new account sets. company_id is left to the
+// database unless it is carried over from an existing row.
+type NewProfileRow = Omit<ProfileRow, "company_id"> & {
+  company_id?: string | null;
+};
+
+export interface NewUser {
+  companyCode: string;
+  password: string;
+  role: Role;
+  storeName?: string;
+  groupId?: string;
+  email?: string;
+}
+
+export interface UserChanges {
+  company_code?: string;
+  password?: string;
+  role?: Role;
+  store_name?: string;
+  group_id?: string | null;
+  email?: string | null;
+}
+
+export type ProvisionStep =
+  "createAuthUser" | "insertProfile" | "insertCompanyCodeLogin";
+export type DeprovisionStep =
+  "deleteCompanyCodeLogin" | "deleteProfile" | "deleteAuthUser";
+export type UpdateStep =
+  "updateProfile" | "updateCompanyCodeLogin" | "updateAuthUser";
+
+interface ProvisionContext {
+  user: NewUser;
+  userId?: string;
+}
+
+interface DeprovisionContext {
+  profile: ProfileRow;
+}
+
+interface UpdateContext {
+  previous: ProfileRow;
+  changes: UserChanges;
+  updated?: ProfileRow;
+}
+
+export interface OrphanedAuthUser {
+  id: string;
+  email: string | undefined;
+  company_code: string | null;
+  role: string | null;
+  store_name: string | null;
+  group_id: string | null;
+  // Profile fields the auth user's metadata does not record; a repair
+  // leaves them empty
+  lost: ProfileMetadataField[];
+  created_at: string;
+}
+
+export interface ReconcileReport {
+  authUsersWithoutProfile: OrphanedAuthUser[];
+  profilesWithoutAuthUser: ProfileRow[];
+  // false when fewer profiles were read than the table holds, so some
+  // auth users may be listed as orphans by mistake
+  complete: boolean;
+}
+
+export type ReconcileOutcome = "repaired" | "purged" | "skipped" | "failed";
+
+// Profile fields copied into the auth user's metadata, so a lost profile
+// can be rebuilt from it
+const PROFILE_METADATA_FIELDS = ["store_name", "group_id"] as const;
+
+type ProfileMetadataField = (typeof PROFILE_METADATA_FIELDS)[number];
+
+// Helper functions
+const PROFILE_COLUMNS =
+  "id, company_code, company_id, role, store_name, group_id, email";
+
+const LIST_USERS_PAGE_SIZE = 1000;
+
+// Supabase returns at most 1000 rows per select unless configured lower
+const PROFILES_PAGE_SIZE = 1000;
+
+// Auth users need an email. Accounts without a contact email get a random
+// address on a reserved domain that never receives mail and is not tied
+// to the company code.
+const PLACEHOLDER_EMAIL_DOMAIN = "@accounts.invalid";
+
+export const placeholderEmail = () =>
+  `${crypto.randomUUID()}${PLACEHOLDER_EMAIL_DOMAIN}`;
+
+const isPlaceholderEmail = (email: string | undefined) =>
+  email?.endsWith(PLACEHOLDER_EMAIL_DOMAIN) ?? false;
+
+const toUserMetadata = (
+  profile: Pick<ProfileRow, "company_code" | "role" | "store_name" | "group_id">
+) => ({
+  company_code: profile.company_code,
+  role: profile.role,
+  store_name: profile.store_name,
+  group_id: profile.group_id,
+});
+
+// The auth user that logs in with a company code
+export async function findUserIdByCompanyCode(
+  companyCode: string
+): Promise<string | null> {
+  const { data } = await supabaseAdmin
+    .from("CompanyCodeLogin")
+    .select("user_id")
+    .eq("company_code", companyCode)
+    .maybeSingle();
+  return data?.user_id ?? null;
+}
+
+// The account whose contact email this is
+export async function findUserIdByEmail(email: string): Promise<string | null> {
+  const { data } = await supabaseAdmin
+    .from("Profiles")
+    .select("id")
+    .eq("email", email)
+    .maybeSingle();
+  return data?.id ?? null;
+}
+
+const upsertCompanyCodeLogin = async (companyCode: string, userId: string) => {
+  throwOnError(
+    await supabaseAdmin
+      .from("CompanyCodeLogin")
+      .upsert([{ company_code: companyCode, user_id: userId }], {
+        onConflict: "user_id",
+      })
+  );
+};
+
+const deleteCompanyCodeLogin = async (userId: string) => {
+  throwOnError(
+    await supabaseAdmin.from("CompanyCodeLogin").delete().eq("user_id", userId)
+  );
+};
+
+const deleteProfileRow = async (id: string) => {
+  throwOnError(await supabaseAdmin.from("Profiles").delete().eq("id", id));
+};
+
+const insertProfileRow = async (profile: NewProfileRow) => {
+  throwOnError(await supabaseAdmin.from("Profiles").insert([profile]));
+};
+
+export async function fetchProfile(id: string): Promise<ProfileRow | null> {
+  const { data } = await supabaseAdmin
+    .from("Profiles")
+    .select(PROFILE_COLUMNS)
+    .eq("id", id)
+    .maybeSingle();
+  return data;
+}
+
+// Creates the auth user, its profile and its company code login; undoes
+// the earlier steps if a later one fails
+export function provisionUser(
+  user: NewUser
+): Promise<SagaResult<ProvisionContext, ProvisionStep>> {
+  const profile: Omit<NewProfileRow, "id"> = {
+    company_code: user.companyCode,
+    role: user.role,
+    store_name: user.role === "store" ? (user.storeName ?? null) : null,
+    group_id: user.groupId ?? null,
+    email: user.email ?? null,
+  };
+
+  return runSaga<ProvisionContext, ProvisionStep>(
+    "provisionUser",
+    [
+      {
+        name: "createAuthUser",
+        run: async (context) => {
+          const { data } = throwOnError(
+            await supabaseAdmin.auth.admin.createUser({
+              email: user.email ?? placeholderEmail(),
+              password: user.password,
+              email_confirm: true,
+              user_metadata: toUserMetadata(profile),
+            })
+          );
+          context.userId = data.user!.id;
+        },
+        compensate: async (context) => {
+          throwOnError(
+            await supabaseAdmin.auth.admin.deleteUser(context.userId!)
+          );
+        },
+      },
+      {
+        name: "insertProfile",
+        run: async (context) => {
+          await insertProfileRow({ id: context.userId!, ...profile });
+        },
+        compensate: (context) => deleteProfileRow(context.userId!),
+      },
+      {
+        name: "insertCompanyCodeLogin",
+        run: (context) =>
+          upsertCompanyCodeLogin(user.companyCode, context.userId!),
+      },
+    ],
+    { user }
+  );
+}
+
+// Deletes the company code login and the profile first, so a failed auth
+// deletion can be undone by re-inserting the saved rows
+export function deprovisionUser(
+  profile: ProfileRow
+): Promise<SagaResult<DeprovisionContext, DeprovisionStep>> {
+  return runSaga<DeprovisionContext, DeprovisionStep>(
+    "deprovisionUser",
+    [
+      {
+        name: "deleteCompanyCodeLogin",
+        run: ({ profile }) => deleteCompanyCodeLogin(profile.id),
+        compensate: ({ profile }) =>
+          upsertCompanyCodeLogin(profile.company_code, profile.id),
+      },
+      {
+        name: "deleteProfile",
+        run: ({ profile }) => deleteProfileRow(profile.id),
+        compensate: ({ profile }) => insertProfileRow(profile),
+      },
+      {
+        name: "deleteAuthUser",
+        run: async ({ profile }) => {
+          throwOnError(await supabaseAdmin.auth.admin.deleteUser(profile.id));
+        },
+      },
+    ],
+    { profile }
+  );
+}
+
+// Only store accounts have a store name. Left out (undefined) unless the
+// body touches the role or the store name.
+const nextStoreName = (previous: ProfileRow, changes: UserChanges) => {
+  if (changes.role === undefined && changes.store_name === undefined) {
+    return undefined;
+  }
+  const role = changes.role ?? previous.role;
+  return role === "store" ? (changes.store_name ?? previous.store_name) : null;
+};
+
+// Updates the profile first and the auth credentials last, because a
+// password change cannot be rolled back
+export function updateUser(
+  previous: ProfileRow,
+  changes: UserChanges
+): Promise<SagaResult<UpdateContext, UpdateStep>> {
+  return runSaga<UpdateContext, UpdateStep>(
+    "updateUser",
+    [
+      {
+        name: "updateProfile",
+        run: async (context) => {
+          const { data } = throwOnError(
+            await supabaseAdmin
+              .from("Profiles")
+              .update({
+                company_code: changes.company_code,
+                role: changes.role,
+                store_name: nextStoreName(previous, changes),
+                group_id: changes.group_id,
+                email: changes.email,
+              })
+              .eq("id", previous.id)
+              .select(PROFILE_COLUMNS)
+              .single()
+          );
+          context.updated = data ?? undefined;
+        },
+        compensate: async () => {
+          const { id, ...columns } = previous;
+          throwOnError(
+            await supabaseAdmin.from("Profiles").update(columns).eq("id", id)
+          );
+        },
+      },
+      {
+        name: "updateCompanyCodeLogin",
+        run: async () => {
+          if (changes.company_code) {
+            await upsertCompanyCodeLogin(changes.company_code, previous.id);
+          }
+        },
+        compensate: () =>
+          upsertCompanyCodeLogin(previous.company_code, previous.id),
+      },
+      {
+        name: "updateAuthUser",
+        run: async ({ updated }) => {
+          const attributes: {
+            email?: string;
+            email_confirm?: boolean;
+            password?: string;
+            user_metadata?: ReturnType<typeof toUserMetadata>;
+          } = {};
+          // Clearing the contact email moves the login back to a placeholder
+          if (changes.email !== undefined) {
+            attributes.email = changes.email ?? placeholderEmail();
+            attributes.email_confirm = true;
+          }
+          // Keeps the metadata in step with the profile for repairs
+          if (
+            updated &&
+            (changes.company_code !== undefined ||
+              changes.role !== undefined ||
+              changes.store_name !== undefined ||
+              changes.group_id !== undefined)
+          ) {
+            attributes.user_metadata = toUserMetadata(updated);
+          }
+          if (changes.password) {
+            attributes.password = changes.password;
+          }
+          if (Object.keys(attributes).length > 0) {
+            throwOnError(
+              await supabaseAdmin.auth.admin.updateUserById(
+                previous.id,
+                attributes
+              )
+            );
+          }
+        },
+      },
+    ],
+    { previous, changes }
+  );
+}
+
+// Reconciliation
+
+const listAllAuthUsers = async (): Promise<User[]> => {
+  const users: User[] = [];
+  for (let page = 1; ; page++) {
+    const { data } = throwOnError(
+      await supabaseAdmin.auth.admin.listUsers({
+        page,
+        perPage: LIST_USERS_PAGE_SIZE,
+      })
+    );
+    users.push(...data.users);
+    if (data.users.length < LIST_USERS_PAGE_SIZE) {
+      return users;
+    }
+  }
+};
+
+// Reads every profile a page at a time. A page shorter than requested ends
+// the loop, so a lower server row limit shows up as a count mismatch.
+const listAllProfiles = async () => {
+  const profiles: ProfileRow[] = [];
+  let total: number | null = null;
+  for (let from = 0; ; from += PROFILES_PAGE_SIZE) {
+    const { data, count } = throwOnError(
+      await supabaseAdmin
+        .from("Profiles")
+        .select(PROFILE_COLUMNS, { count: "exact" })
+        .order("id")
+        .range(from, from + PROFILES_PAGE_SIZE - 1)
+    );
+    total ??= count;
+    profiles.push(...(data ?? []));
+    if ((data ?? []).length < PROFILES_PAGE_SIZE) {
+      return { profiles, complete: total === profiles.length };
+    }
+  }
+};
+
+export async function buildReconcileReport(): Promise<ReconcileReport> {
+  const [authUsers, { profiles, complete }] = await Promise.all([
+    listAllAuthUsers(),
+    listAllProfiles(),
+  ]);
+
+  const authIds = new Set(authUsers.map((user) => user.id));
+  const profileIds = new Set(profiles.map((profile) => profile.id));
+
+  return {
+    authUsersWithoutProfile: authUsers
+      .filter((user) => !profileIds.has(user.id))
+      .map((user) => {
+        const metadata = user.user_metadata ?? {};
+        return {
+          id: user.id,
+          email: user.email,
+          company_code: metadata.company_code ?? null,
+          role: metadata.role ?? null,
+          store_name: metadata.store_name ?? null,
+          group_id: metadata.group_id ?? null,
+          lost: PROFILE_METADATA_FIELDS.filter((field) => !(field in metadata)),
+          created_at: user.created_at,
+        };
+      }),
+    profilesWithoutAuthUser: profiles.filter(
+      (profile) => !authIds.has(profile.id)
+    ),
+    complete,
+  };
+}
+
+// Rebuilds a missing profile from the auth user's metadata and email.
+// Accounts created before the metadata held every field come back with the
+// fields listed in lost left empty. Profiles whose auth user is gone cannot
+// be repaired (the password is lost) and are skipped; purge them and
+// provision the store again instead.
+export async function repairOrphan(
+  report: ReconcileReport,
+  id: string
+): Promise<ReconcileOutcome> {
+  const authUser = report.authUsersWithoutProfile.find((u) => u.id === id);
+  if (!authUser || !authUser.company_code || !authUser.role) {
+    return "skipped";
+  }
+
+  await insertProfileRow({
+    id,
+    company_code: authUser.company_code,
+    role: authUser.role,
+    store_name: authUser.role === "store" ? authUser.store_name : null,
+    group_id: authUser.group_id,
+    email: isPlaceholderEmail(authUser.email) ? null : (authUser.email ?? null),
+  });
+  await upsertCompanyCodeLogin(authUser.company_code, id);
+  return "repaired";
+}
+
+// Refuses to run on an incomplete report, where a live account could be
+// mistaken for an orphan
+export async function purgeOrphan(
+  report: ReconcileReport,
+  id: string
+): Promise<ReconcileOutcome> {
+  if (!report.complete) {
+    throw new Error("The reconcile report is incomplete");
+  }
+  if (report.authUsersWithoutProfile.some((user) => user.id === id)) {
+    throwOnError(await supabaseAdmin.auth.admin.deleteUser(id));
+    return "purged";
+  }
+  if (report.profilesWithoutAuthUser.some((profile) => profile.id === id)) {
+    await deleteCompanyCodeLogin(id);
+    await deleteProfileRow(id);
+    return "purged";
+  }
+  return "skipped";
+}
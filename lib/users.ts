@@ -0,0 +1,18 @@
+// Types
+// A profile as the user routes return it
+export interface UserProfile {
+  id: string;
+  company_code: string;
+  role: string;
+  store_name: string | null;
+  group_id: string | null;
+  email: string | null;
+}
+
+// User list rows also carry the creation time, which the list can sort by
+export interface UserListEntry extends UserProfile {
+  created_at: string;
+}
+
+export const USER_PROFILE_COLUMNS =
+  "id, company_code, role, store_name, group_id, email";
@@ -0,0 +1,235 @@
+import { createErrorResponse } from "@/lib/api-response";
+import {
+  getTranslator,
+  isMessageKey,
+  type MessageKey,
+  type Translator,
+} from "@/lib/i18n";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+// Types
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+interface ValidateBodyOptions {
+  // Treat an empty body as {} for routes whose fields are all optional
+  allowEmpty?: boolean;
+}
+
+export type ValidationResult<T> =
+  { success: true; data: T } | { success: false; response: NextResponse };
+
+// Helper functions
+export const createValidationErrorResponse = (
+  t: Translator,
+  fields: FieldError[]
+): NextResponse => {
+  return createErrorResponse(
+    "VALIDATION_FAILED",
+    t("VALIDATION_FAILED"),
+    fields
+  );
+};
+
+// Values a message key can refer to: {min} and {max} for size checks,
+// anything a custom issue passes in its params
+const issueParams = (
+  issue: z.ZodIssue
+): Record<string, string | number> | undefined => {
+  switch (issue.code) {
+    case z.ZodIssueCode.custom:
+      return issue.params;
+    case z.ZodIssueCode.too_small:
+      return { min: Number(issue.minimum) };
+    case z.ZodIssueCode.too_big:
+      return { max: Number(issue.maximum) };
+    default:
+      return undefined;
+  }
+};
+
+// Schemas give their own messages as message keys, translated here;
+// zod's built-in messages are passed through as they are
+export const toFieldErrors = (
+  t: Translator,
+  error: z.ZodError
+): FieldError[] => {
+  return error.issues.map((issue) => ({
+    field: issue.path.join(".") || "(root)",
+    message: isMessageKey(issue.message)
+      ? t(issue.message, issueParams(issue))
+      : issue.message,
+  }));
+};
+
+const INVALID_STRING_KEYS: Partial<Record<string, MessageKey>> = {
+  email: "validation.invalidEmail",
+  uuid: "validation.invalidUuid",
+  datetime: "validation.invalidDateTime",
+};
+
+// The message key for one of zod's built-in issues
+const builtInIssue = (
+  issue: z.ZodIssueOptionalMessage
+): [MessageKey, Record<string, string | number>?] => {
+  switch (issue.code) {
+    case z.ZodIssueCode.invalid_type:
+      return issue.received === z.ZodParsedType.undefined
+        ? ["validation.required"]
+        : [
+            "validation.invalidType",
+            { expected: issue.expected, received: issue.received },
+          ];
+    case z.ZodIssueCode.invalid_enum_value:
+    case z.ZodIssueCode.invalid_union_discriminator:
+      return ["validation.invalidEnum", { options: issue.options.join(", ") }];
+    case z.ZodIssueCode.invalid_string:
+      return [
+        (typeof issue.validation === "string" &&
+          INVALID_STRING_KEYS[issue.validation]) ||
+          "validation.invalidFormat",
+      ];
+    case z.ZodIssueCode.invalid_date:
+      return ["validation.invalidDate"];
+    case z.ZodIssueCode.too_small: {
+      const min = Number(issue.minimum);
+      if (issue.type === "string") {
+        return min === 1
+          ? ["validation.empty"]
+          : ["validation.tooShort", { min }];
+      }
+      if (issue.type === "array" || issue.type === "set") {
+        return ["validation.tooFewItems", { min }];
+      }
+      return [
+        issue.inclusive
+          ? "validation.tooSmall"
+          : "validation.mustBeGreaterThan",
+        { min },
+      ];
+    }
+    case z.ZodIssueCode.too_big: {
+      const max = Number(issue.maximum);
+      if (issue.type === "string") {
+        return ["validation.tooLong", { max }];
+      }
+      if (issue.type === "array" || issue.type === "set") {
+        return ["validation.tooManyItems", { max }];
+      }
+      return [
+        issue.inclusive ? "validation.tooBig" : "validation.mustBeLessThan",
+        { max },
+      ];
+    }
+    case z.ZodIssueCode.unrecognized_keys:
+      return ["validation.unrecognizedKeys", { keys: issue.keys.join(", ") }];
+    default:
+      return ["validation.invalid"];
+  }
+};
+
+// Passed to safeParse so zod's own messages come out in the request
+// locale. Messages a schema sets itself do not go through it.
+export const createErrorMap =
+  (t: Translator): z.ZodErrorMap =>
+  (issue) => ({ message: t(...builtInIssue(issue)) });
+
+// Message and params of a custom issue or refinement, e.g.
+// ctx.addIssue({ code: "custom", ...issueMessage("password.tooShort", { min }) })
+export const issueMessage = (
+  key: MessageKey,
+  params?: Record<string, string | number>
+) => ({ message: key, ...(params && { params }) });
+
+// Parses the JSON body of a request and checks it against a schema
+export async function validateBody<S extends z.ZodTypeAny>(
+  request: Request,
+  schema: S,
+  options: ValidateBodyOptions = {}
+): Promise<ValidationResult<z.infer<S>>> {
+  const t = getTranslator(request);
+  let body: unknown;
+  try {
+    const text = await request.text();
+    body = options.allowEmpty && text.trim() === "" ? {} : JSON.parse(text);
+  } catch {
+    return {
+      success: false,
+      response: createValidationErrorResponse(t, [
+        { field: "(root)", message: t("validation.invalidJson") },
+      ]),
+    };
+  }
+
+  const result = schema.safeParse(body, { errorMap: createErrorMap(t) });
+  if (!result.success) {
+    return {
+      success: false,
+      response: createValidationErrorResponse(
+        t,
+        toFieldErrors(t, result.error)
+      ),
+    };
+  }
+
+  return { success: true, data: result.data };
+}
+
+// Checks the query string of a request against a schema. Repeated keys
+// keep their last value.
+export function validateQuery<S extends z.ZodTypeAny>(
+  request: Request,
+  schema: S
+): ValidationResult<z.infer<S>> {
+  const { searchParams } = new URL(request.url);
+  const t = getTranslator(request);
+  const result = schema.safeParse(Object.fromEntries(searchParams), {
+    errorMap: createErrorMap(t),
+  });
+  if (!result.success) {
+    return {
+      success: false,
+      response: createValidationErrorResponse(
+        t,
+        toFieldErrors(t, result.error)
+      ),
+    };
+  }
+
+  return { success: true, data: result.data };
+}
+
+// Shared field schemas
+
+// A calendar date in YYYY-MM-DD form that actually exists (rejects 2025-02-30)
+export const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "validation.invalidDateFormat")
+  .refine((value) => {
+    const date = new Date(`${value}T00:00:00Z`);
+    return (
+      !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value)
+    );
+  }, issueMessage("validation.invalidCalendarDate"));
+
+// A comma-separated list such as "2025-06-02,2025-06-03", checked
+// against the given array schema after splitting
+export const commaSeparated = <T extends z.ZodTypeAny>(list: T) =>
+  z
+    .string()
+    .transform((value) =>
+      value
+        .split(",")
+        .map((part) => part.trim())
+        .filter(Boolean)
+    )
+    .pipe(list);
+
+// An ISO 8601 timestamp with a zone, e.g. 2026-12-01T00:00:00+09:00
+export const isoDateTime = z
+  .string()
+  .datetime({ offset: true })
+  .transform((value) => new Date(value));
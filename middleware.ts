@@ -0,0 +1,17 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getCorsHeaders } from "@/lib/cors";
+
+// Adds CORS headers to every API response, including preflight responses
+// produced by each route's OPTIONS handler.
+export function middleware(request: NextRequest) {
+  const response = NextResponse.next();
+  const headers = getCorsHeaders(request.headers.get("origin"));
+  for (const [name, value] of Object.entries(headers)) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+export const config = {
+  matcher: "/api/:path*",
+};
@@ -0,0 +1,121 @@
+-- CreateTable
+CREATE TABLE "MenuItem" (
+    "menu_id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "price" DECIMAL(10,2) NOT NULL,
+    "status" BOOLEAN NOT NULL DEFAULT true,
+    "description" TEXT,
+    "K" BOOLEAN NOT NULL DEFAULT false,
+    "other" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MenuItem_pkey" PRIMARY KEY ("menu_id")
+);
+
+-- CreateTable
+CREATE TABLE "MenuCsv" (
+    "id" SERIAL NOT NULL,
+    "menu_system_code" TEXT NOT NULL,
+    "menu_code" TEXT NOT NULL,
+
+    CONSTRAINT "MenuCsv_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "StoreMenuItem" (
+    "store_menu_item_id" SERIAL NOT NULL,
+    "store_id" TEXT NOT NULL,
+    "menu_id" INTEGER NOT NULL,
+    "menu_name" TEXT NOT NULL,
+    "price" DECIMAL(10,2) NOT NULL,
+    "status" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StoreMenuItem_pkey" PRIMARY KEY ("store_menu_item_id")
+);
+
+-- CreateTable
+CREATE TABLE "StoreItem" (
+    "store_menu_item_id" SERIAL NOT NULL,
+    "store_id" TEXT NOT NULL,
+    "menu_id" INTEGER NOT NULL,
+    "menu_name" TEXT NOT NULL,
+    "price" DECIMAL(10,2) NOT NULL,
+    "status" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StoreItem_pkey" PRIMARY KEY ("store_menu_item_id")
+);
+
+-- CreateTable
+CREATE TABLE "Ingredient" (
+    "ingredient_id" SERIAL NOT NULL,
+    "store_id" TEXT NOT NULL,
+    "material_system_code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "quantity" DECIMAL(10,2) NOT NULL,
+
+    CONSTRAINT "Ingredient_pkey" PRIMARY KEY ("ingredient_id")
+);
+
+-- CreateTable
+CREATE TABLE "Profiles" (
+    "id" UUID NOT NULL,
+    "company_code" TEXT NOT NULL,
+    "company_id" TEXT,
+    "role" TEXT NOT NULL,
+    "store_name" TEXT,
+    "group" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MenuItem_name_idx" ON "MenuItem"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MenuCsv_menu_system_code_key" ON "MenuCsv"("menu_system_code");
+
+-- CreateIndex
+CREATE INDEX "StoreMenuItem_store_id_idx" ON "StoreMenuItem"("store_id");
+
+-- CreateIndex
+CREATE INDEX "StoreMenuItem_menu_id_idx" ON "StoreMenuItem"("menu_id");
+
+-- CreateIndex
+CREATE INDEX "StoreMenuItem_store_id_menu_name_idx" ON "StoreMenuItem"("store_id", "menu_name");
+
+-- CreateIndex
+CREATE INDEX "StoreItem_store_id_idx" ON "StoreItem"("store_id");
+
+-- CreateIndex
+CREATE INDEX "StoreItem_menu_id_idx" ON "StoreItem"("menu_id");
+
+-- CreateIndex
+CREATE INDEX "Ingredient_store_id_idx" ON "Ingredient"("store_id");
+
+-- CreateIndex
+CREATE INDEX "Ingredient_date_idx" ON "Ingredient"("date");
+
+-- CreateIndex
+CREATE INDEX "Ingredient_store_id_date_idx" ON "Ingredient"("store_id", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Profiles_company_code_key" ON "Profiles"("company_code");
+
+-- CreateIndex
+CREATE INDEX "Profiles_company_id_idx" ON "Profiles"("company_id");
+
+-- CreateIndex
+CREATE INDEX "Profiles_role_idx" ON "Profiles"("role");
+
+-- AddForeignKey
+ALTER TABLE "StoreMenuItem" ADD CONSTRAINT "StoreMenuItem_menu_id_fkey" FOREIGN KEY ("menu_id") REFERENCES "MenuItem"("menu_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StoreItem" ADD CONSTRAINT "StoreItem_menu_id_fkey" FOREIGN KEY ("menu_id") REFERENCES "MenuItem"("menu_id") ON DELETE CASCADE ON UPDATE CASCADE;
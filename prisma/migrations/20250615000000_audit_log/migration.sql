@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "AuditLog" (
+    "id" SERIAL NOT NULL,
+    "actor_id" UUID NOT NULL,
+    "action" TEXT NOT NULL,
+    "target_id" TEXT NOT NULL,
+    "details" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuditLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AuditLog_actor_id_idx" ON "AuditLog"("actor_id");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_target_id_idx" ON "AuditLog"("target_id");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_created_at_idx" ON "AuditLog"("created_at");
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "RateLimitEntry" (
+    "key" TEXT NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    "window_start" TIMESTAMP(3) NOT NULL,
+    "blocked_until" TIMESTAMP(3),
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RateLimitEntry_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "RateLimitEntry_updated_at_idx" ON "RateLimitEntry"("updated_at");
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "Group" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Group_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Group_name_key" ON "Group"("name");
+
+-- AlterTable
+ALTER TABLE "Profiles" ADD COLUMN "group_id" UUID;
+
+-- Turn the free-text group names into Group rows and link profiles to them
+INSERT INTO "Group" ("name")
+SELECT DISTINCT trim("group") FROM "Profiles"
+WHERE "group" IS NOT NULL AND trim("group") <> '';
+
+UPDATE "Profiles" SET "group_id" = "Group"."id"
+FROM "Group"
+WHERE "Group"."name" = trim("Profiles"."group");
+
+-- AlterTable
+ALTER TABLE "Profiles" DROP COLUMN "group";
+
+-- CreateIndex
+CREATE INDEX "Profiles_group_id_idx" ON "Profiles"("group_id");
+
+-- AddForeignKey
+ALTER TABLE "Profiles" ADD CONSTRAINT "Profiles_group_id_fkey" FOREIGN KEY ("group_id") REFERENCES "Group"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "Profiles" ADD COLUMN "email" TEXT;
+
+-- CreateTable
+CREATE TABLE "CompanyCodeLogin" (
+    "company_code" TEXT NOT NULL,
+    "user_id" UUID NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CompanyCodeLogin_pkey" PRIMARY KEY ("company_code")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Profiles_email_key" ON "Profiles"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CompanyCodeLogin_user_id_key" ON "CompanyCodeLogin"("user_id");
+
+-- Existing accounts log in by company code through the new table. Their
+-- synthetic <company code>@example.com auth emails keep working, but are
+-- no longer changed when the company code is renamed. Setting a contact
+-- email on the profile replaces them.
+INSERT INTO "CompanyCodeLogin" ("company_code", "user_id")
+SELECT "company_code", "id" FROM "Profiles";
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "MenuItem" ADD COLUMN "archived_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "MenuItem_archived_at_idx" ON "MenuItem"("archived_at");
@@ -0,0 +1,15 @@
+-- Items are now addressed by menu_id. Give duplicate active names a
+-- suffix first, so the unique index below can be created; the oldest
+-- item keeps its name.
+UPDATE "MenuItem" AS "item"
+SET "name" = "item"."name" || ' (' || "item"."menu_id" || ')'
+WHERE "item"."archived_at" IS NULL
+  AND EXISTS (
+    SELECT 1 FROM "MenuItem" AS "other"
+    WHERE "other"."name" = "item"."name"
+      AND "other"."archived_at" IS NULL
+      AND "other"."menu_id" < "item"."menu_id"
+  );
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MenuItem_name_active_key" ON "MenuItem"("name") WHERE "archived_at" IS NULL;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "MenuChange" (
+    "id" SERIAL NOT NULL,
+    "menu_id" INTEGER NOT NULL,
+    "store_id" TEXT,
+    "actor_id" UUID NOT NULL,
+    "action" TEXT NOT NULL,
+    "changes" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MenuChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MenuChange_menu_id_created_at_idx" ON "MenuChange"("menu_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "MenuChange_store_id_menu_id_created_at_idx" ON "MenuChange"("store_id", "menu_id", "created_at");
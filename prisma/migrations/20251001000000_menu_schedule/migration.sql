@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "MenuSchedule" (
+    "id" SERIAL NOT NULL,
+    "menu_id" INTEGER NOT NULL,
+    "store_id" TEXT,
+    "kind" TEXT NOT NULL,
+    "starts_at" TIMESTAMP(3) NOT NULL,
+    "ends_at" TIMESTAMP(3),
+    "price" DECIMAL(10,2),
+    "status" BOOLEAN,
+    "days" INTEGER[],
+    "start_minute" INTEGER,
+    "end_minute" INTEGER,
+    "created_by" UUID NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "applied_at" TIMESTAMP(3),
+    "cancelled_at" TIMESTAMP(3),
+
+    CONSTRAINT "MenuSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MenuSchedule_menu_id_store_id_idx" ON "MenuSchedule"("menu_id", "store_id");
+
+-- CreateIndex
+CREATE INDEX "MenuSchedule_store_id_starts_at_idx" ON "MenuSchedule"("store_id", "starts_at");
+
+-- AddForeignKey
+ALTER TABLE "MenuSchedule" ADD CONSTRAINT "MenuSchedule_menu_id_fkey" FOREIGN KEY ("menu_id") REFERENCES "MenuItem"("menu_id") ON DELETE CASCADE ON UPDATE CASCADE;
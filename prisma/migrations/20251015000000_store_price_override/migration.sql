@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "StoreMenuItem" ADD COLUMN "price_override" BOOLEAN NOT NULL DEFAULT false;
+
+-- Existing rows cannot tell a store's own price from an outdated copy of
+-- the HQ price. Treat every differing price as the store's own, so the
+-- first propagation keeps it unless asked to replace it.
+UPDATE "StoreMenuItem" AS "store"
+SET "price_override" = true
+FROM "MenuItem" AS "item"
+WHERE "item"."menu_id" = "store"."menu_id"
+  AND "item"."price" <> "store"."price";
@@ -0,0 +1,33 @@
+-- The store menu was read from "StoreItem" but written to "StoreMenuItem".
+-- Keep "StoreMenuItem" only, with one row per store and item.
+
+-- Copy items that only exist in "StoreItem", using the newest row of each
+INSERT INTO "StoreMenuItem" ("store_id", "menu_id", "menu_name", "price", "price_override", "status", "created_at", "updated_at")
+SELECT DISTINCT ON ("old"."store_id", "old"."menu_id")
+    "old"."store_id", "old"."menu_id", "old"."menu_name", "old"."price",
+    "old"."price" <> "item"."price", "old"."status", "old"."created_at", "old"."updated_at"
+FROM "StoreItem" AS "old"
+JOIN "MenuItem" AS "item" ON "item"."menu_id" = "old"."menu_id"
+WHERE NOT EXISTS (
+    SELECT 1 FROM "StoreMenuItem" AS "store"
+    WHERE "store"."store_id" = "old"."store_id"
+      AND "store"."menu_id" = "old"."menu_id"
+  )
+ORDER BY "old"."store_id", "old"."menu_id", "old"."updated_at" DESC, "old"."store_menu_item_id" DESC;
+
+-- Merge duplicates into the most recently updated row, which holds the
+-- price and status the store set last
+DELETE FROM "StoreMenuItem" AS "store"
+WHERE EXISTS (
+    SELECT 1 FROM "StoreMenuItem" AS "other"
+    WHERE "other"."store_id" = "store"."store_id"
+      AND "other"."menu_id" = "store"."menu_id"
+      AND ("other"."updated_at", "other"."store_menu_item_id")
+        > ("store"."updated_at", "store"."store_menu_item_id")
+  );
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StoreMenuItem_store_id_menu_id_key" ON "StoreMenuItem"("store_id", "menu_id");
+
+-- DropTable
+DROP TABLE "StoreItem";
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "PriceBand" (
+    "id" SERIAL NOT NULL,
+    "menu_id" INTEGER,
+    "group_id" UUID,
+    "min_price" DECIMAL(10,2),
+    "max_price" DECIMAL(10,2),
+    "percent" DECIMAL(5,2),
+    "updated_by" UUID NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PriceBand_pkey" PRIMARY KEY ("id"),
+    -- A band belongs to either one master item or one group
+    CONSTRAINT "PriceBand_scope_check" CHECK (("menu_id" IS NULL) <> ("group_id" IS NULL))
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PriceBand_menu_id_key" ON "PriceBand"("menu_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PriceBand_group_id_key" ON "PriceBand"("group_id");
+
+-- AddForeignKey
+ALTER TABLE "PriceBand" ADD CONSTRAINT "PriceBand_menu_id_fkey" FOREIGN KEY ("menu_id") REFERENCES "MenuItem"("menu_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PriceBand" ADD CONSTRAINT "PriceBand_group_id_fkey" FOREIGN KEY ("group_id") REFERENCES "Group"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,105 @@
+import { SignJWT } from "jose";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GET } from "@/app/api/auth/me/route";
+import { signAccessToken } from "@/lib/jwt";
+import { PROFILES, routeContext, STORE } from "./helpers/fixtures";
+import { resetSupabase, state } from "./helpers/supabase";
+
+vi.mock(
+  "@/lib/supabase",
+  async () => (await import("./helpers/supabase")).supabaseModule
+);
+vi.mock(
+  "@supabase/auth-helpers-nextjs",
+  async () => (await import("./helpers/supabase")).authHelpersModule
+);
+vi.mock(
+  "next/headers",
+  async () => (await import("./helpers/supabase")).nextHeadersModule
+);
+
+const getMe = (token: string) =>
+  GET(
+    new Request("http://localhost/api/auth/me", {
+      headers: { Authorization: `Bearer ${token}` },
+    }),
+    routeContext({})
+  );
+
+// Token with the given overrides, signed like signAccessToken does
+const signCustomToken = (options: {
+  audience?: string;
+  expiresAt?: number;
+  secret?: string;
+}) =>
+  new SignJWT({ role: "authenticated" })
+    .setProtectedHeader({ alg: "HS256", typ: "JWT" })
+    .setSubject(STORE.id)
+    .setAudience(options.audience ?? "authenticated")
+    .setIssuedAt()
+    .setExpirationTime(options.expiresAt ?? "1h")
+    .sign(
+      new TextEncoder().encode(
+        options.secret ?? process.env.SUPABASE_JWT_SECRET
+      )
+    );
+
+beforeEach(() => {
+  resetSupabase({ Profiles: PROFILES });
+});
+
+describe("bearer token authentication", () => {
+  it("resolves the caller's profile from a signed token", async () => {
+    const response = await getMe(await signAccessToken(STORE.id));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      data: { id: STORE.id, company_code: STORE.company_code },
+    });
+  });
+
+  it("rejects an expired token", async () => {
+    const token = await signCustomToken({
+      expiresAt: Math.floor(Date.now() / 1000) - 60,
+    });
+
+    expect((await getMe(token)).status).toBe(401);
+  });
+
+  it("rejects a token for another audience", async () => {
+    const token = await signCustomToken({ audience: "service_role" });
+
+    expect((await getMe(token)).status).toBe(401);
+  });
+
+  it("rejects a token signed with another secret", async () => {
+    const token = await signCustomToken({
+      secret: "another-secret-with-at-least-32-characters",
+    });
+
+    expect((await getMe(token)).status).toBe(401);
+  });
+
+  it("rejects a token whose session was logged out", async () => {
+    const token = await signAccessToken(STORE.id);
+    state.revokedTokens.add(token);
+
+    expect((await getMe(token)).status).toBe(401);
+  });
+});
+
+describe("lib/jwt", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it("fails to load without SUPABASE_JWT_SECRET", async () => {
+    vi.stubEnv("SUPABASE_JWT_SECRET", "");
+    vi.resetModules();
+
+    await expect(import("@/lib/jwt")).rejects.toThrow(
+      "Missing env.SUPABASE_JWT_SECRET"
+    );
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { parseCsvRecords, toCsv } from "@/lib/csv";
+
+describe("parseCsvRecords", () => {
+  it("reports the line each record starts on", () => {
+    const text = [
+      "company_code,store_name",
+      "S001,Shibuya",
+      "",
+      'S002,"Shinjuku',
+      'East"',
+      "S003,Ikebukuro",
+    ].join("\r\n");
+
+    expect(parseCsvRecords(text)).toEqual([
+      { line: 2, values: { company_code: "S001", store_name: "Shibuya" } },
+      {
+        line: 4,
+        values: { company_code: "S002", store_name: "Shinjuku\r\nEast" },
+      },
+      { line: 6, values: { company_code: "S003", store_name: "Ikebukuro" } },
+    ]);
+  });
+
+  it("counts lines the same way with LF line endings", () => {
+    const text = 'company_code,note\n\n"S001","a\nb"\nS002,c\n';
+
+    expect(parseCsvRecords(text).map((record) => record.line)).toEqual([3, 5]);
+  });
+});
+
+describe("toCsv", () => {
+  it("stops spreadsheets from running cells as formulas", () => {
+    const records = [
+      { company_code: '=HYPERLINK("http://x")', store_name: "+1" },
+      { company_code: "-2", store_name: "@SUM(A1)" },
+      { company_code: "\tS001", store_name: "Shibuya-East" },
+    ];
+
+    const csv = toCsv(records, ["company_code", "store_name"]);
+
+    expect(csv).toBe(
+      [
+        "company_code,store_name",
+        `"'=HYPERLINK(""http://x"")",'+1`,
+        "'-2,'@SUM(A1)",
+        "'\tS001,Shibuya-East",
+        "",
+      ].join("\r\n")
+    );
+  });
+
+  it("reads its own escaped cells back unchanged", () => {
+    const records = [{ company_code: "-S001", store_name: "'quoted" }];
+
+    expect(
+      parseCsvRecords(toCsv(records, ["company_code", "store_name"]))
+    ).toEqual([{ line: 2, values: records[0] }]);
+  });
+});
@@ -0,0 +1,50 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { DELETE, PATCH } from "@/app/api/groups/[groupId]/route";
+import { ADMIN, PROFILES, routeContext } from "./helpers/fixtures";
+import { resetSupabase, state, supabaseAdmin } from "./helpers/supabase";
+
+vi.mock(
+  "@/lib/supabase",
+  async () => (await import("./helpers/supabase")).supabaseModule
+);
+vi.mock(
+  "@supabase/auth-helpers-nextjs",
+  async () => (await import("./helpers/supabase")).authHelpersModule
+);
+vi.mock(
+  "next/headers",
+  async () => (await import("./helpers/supabase")).nextHeadersModule
+);
+
+const GROUP_URL = "http://localhost/api/groups/not-a-uuid";
+
+beforeEach(() => {
+  resetSupabase({ Profiles: PROFILES });
+  state.sessionUserId = ADMIN.id;
+});
+
+describe("/api/groups/[groupId]", () => {
+  it("answers 404 to PATCH with an id that is not a UUID", async () => {
+    const response = await PATCH(
+      new Request(GROUP_URL, {
+        method: "PATCH",
+        body: JSON.stringify({ name: "Kanto" }),
+      }),
+      routeContext({ groupId: "not-a-uuid" })
+    );
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({ code: "NOT_FOUND" });
+    expect(supabaseAdmin.from).not.toHaveBeenCalledWith("Group");
+  });
+
+  it("answers 404 to DELETE with an id that is not a UUID", async () => {
+    const response = await DELETE(
+      new Request(GROUP_URL, { method: "DELETE" }),
+      routeContext({ groupId: "not-a-uuid" })
+    );
+
+    expect(response.status).toBe(404);
+    expect(supabaseAdmin.from).not.toHaveBeenCalledWith("Group");
+  });
+});
@@ -0,0 +1,36 @@
+// Accounts seeded into the fake Profiles table
+export const ADMIN = {
+  id: "00000000-0000-4000-8000-000000000001",
+  company_code: "HQ",
+  company_id: null,
+  role: "admin",
+  store_name: null,
+  group_id: null,
+  email: "hq@example.com",
+};
+
+export const STORE = {
+  id: "00000000-0000-4000-8000-000000000002",
+  company_code: "S001",
+  company_id: "store-1",
+  role: "store",
+  store_name: "Shibuya",
+  group_id: null,
+  email: null,
+};
+
+export const OTHER_STORE = {
+  id: "00000000-0000-4000-8000-000000000003",
+  company_code: "S002",
+  company_id: "store-2",
+  role: "store",
+  store_name: "Shinjuku",
+  group_id: null,
+  email: null,
+};
+
+export const PROFILES = [ADMIN, STORE, OTHER_STORE];
+
+export const routeContext = <P>(params: P) => ({
+  params: Promise.resolve(params),
+});
@@ -0,0 +1,143 @@
+import { decodeJwt } from "jose";
+import { vi } from "vitest";
+
+// Types
+type Row = Record<string, unknown>;
+
+interface FakeSupabaseState {
+  tables: Record<string, Row[]>;
+  // User behind the session cookie; null for anonymous callers
+  sessionUserId: string | null;
+  // Access tokens whose session has been logged out
+  revokedTokens: Set<string>;
+}
+
+// In-memory stand-in for the Supabase client. Queries only apply eq()
+// filters to the seeded rows; every other builder method is accepted and
+// ignored. Inserts are appended to the table, and updates are applied to
+// the filtered rows when the query is awaited.
+export const state: FakeSupabaseState = {
+  tables: {},
+  sessionUserId: null,
+  revokedTokens: new Set(),
+};
+
+export const resetSupabase = (tables: Record<string, Row[]> = {}) => {
+  state.tables = structuredClone(tables);
+  state.sessionUserId = null;
+  state.revokedTokens = new Set();
+  vi.clearAllMocks();
+};
+
+const createQuery = (table: string) => {
+  state.tables[table] ??= [];
+  let rows = [...state.tables[table]];
+  let changes: Row | undefined;
+
+  // Undefined values are dropped, as they are when the body is serialised
+  const settle = () => {
+    if (changes) {
+      const defined = Object.entries(changes).filter(
+        ([, v]) => v !== undefined
+      );
+      rows.forEach((row) => Object.assign(row, Object.fromEntries(defined)));
+      changes = undefined;
+    }
+    return rows;
+  };
+
+  const query: object = new Proxy(
+    {},
+    {
+      get: (_, method) => {
+        switch (method) {
+          case "eq":
+            return (column: string, value: unknown) => {
+              rows = rows.filter((row) => row[column] === value);
+              return query;
+            };
+          case "insert":
+            return (inserted: Row[]) => {
+              state.tables[table].push(...inserted);
+              rows = inserted;
+              return query;
+            };
+          case "update":
+            return (values: Row) => {
+              changes = values;
+              return query;
+            };
+          case "single":
+            return async () =>
+              settle().length === 1
+                ? { data: rows[0], error: null }
+                : { data: null, error: { message: "Row not found" } };
+          case "maybeSingle":
+            return async () => ({ data: settle()[0] ?? null, error: null });
+          case "then":
+            return (
+              resolve: (value: unknown) => unknown,
+              reject: (reason: unknown) => unknown
+            ) =>
+              Promise.resolve({
+                data: settle(),
+                error: null,
+                count: rows.length,
+              }).then(resolve, reject);
+          default:
+            return () => query;
+        }
+      },
+    }
+  );
+  return query;
+};
+
+const getUser = async (token: string) => {
+  if (state.revokedTokens.has(token)) {
+    return { data: { user: null }, error: { message: "Session not found" } };
+  }
+  return { data: { user: { id: decodeJwt(token).sub } }, error: null };
+};
+
+export const supabaseAdmin = {
+  from: vi.fn(createQuery),
+  auth: {
+    getUser: vi.fn(getUser),
+    admin: {
+      deleteUser: vi.fn(async () => ({ data: { user: null }, error: null })),
+      signOut: vi.fn(async () => ({ data: null, error: null })),
+      updateUserById: vi.fn(async (id: string) => ({
+        data: { user: { id } },
+        error: null,
+      })),
+    },
+  },
+};
+
+// Replacements for the modules that create Supabase clients
+export const supabaseModule = {
+  supabaseAdmin,
+  createUserClient: () => ({ from: createQuery }),
+  createAnonClient: () => ({ from: createQuery }),
+};
+
+export const authHelpersModule = {
+  createRouteHandlerClient: () => ({
+    from: createQuery,
+    auth: {
+      getSession: async () => ({
+        data: {
+          session: state.sessionUserId
+            ? { user: { id: state.sessionUserId } }
+            : null,
+        },
+        error: null,
+      }),
+    },
+  }),
+};
+
+export const nextHeadersModule = {
+  cookies: async () => ({}),
+};
@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { localTime, resolveSchedules } from "@/lib/menu-schedule";
+import { Prisma, type MenuSchedule } from "@prisma/client";
+
+const ITEM = { price: 500, isActive: true };
+
+const schedule = (fields: Partial<MenuSchedule>): MenuSchedule => ({
+  id: 1,
+  menu_id: 1,
+  store_id: null,
+  kind: "window",
+  starts_at: new Date("2026-01-01T00:00:00Z"),
+  ends_at: null,
+  price: null,
+  status: null,
+  days: [],
+  start_minute: null,
+  end_minute: null,
+  created_by: "00000000-0000-4000-8000-000000000001",
+  created_at: new Date("2026-01-01T00:00:00Z"),
+  applied_at: null,
+  cancelled_at: null,
+  ...fields,
+});
+
+// Weekdays 11:00-14:00
+const LUNCH = schedule({
+  days: [1, 2, 3, 4, 5],
+  start_minute: 11 * 60,
+  end_minute: 14 * 60,
+});
+
+const isActiveAt = (schedules: MenuSchedule[], at: string) =>
+  resolveSchedules(ITEM, schedules, new Date(at)).isActive;
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.resetModules();
+});
+
+describe("localTime", () => {
+  it("reads weekday and minute in Asia/Tokyo by default", () => {
+    // Monday 00:00 and Sunday 23:59 in Tokyo
+    expect(localTime(new Date("2026-10-18T15:00:00Z"))).toEqual({
+      day: 1,
+      minute: 0,
+    });
+    expect(localTime(new Date("2026-10-18T14:59:00Z"))).toEqual({
+      day: 0,
+      minute: 23 * 60 + 59,
+    });
+  });
+
+  it("follows MENU_SCHEDULE_TIME_ZONE", async () => {
+    vi.stubEnv("MENU_SCHEDULE_TIME_ZONE", "America/New_York");
+    vi.resetModules();
+    const schedules = await import("@/lib/menu-schedule");
+
+    // Monday 03:30 UTC is still Sunday evening in New York (EDT)
+    expect(schedules.localTime(new Date("2026-10-19T03:30:00Z"))).toEqual({
+      day: 0,
+      minute: 23 * 60 + 30,
+    });
+  });
+});
+
+describe("resolveSchedules", () => {
+  it("is available from the start of a window up to its end", () => {
+    // Monday 11:00, 13:59 and 14:00 in Tokyo
+    expect(isActiveAt([LUNCH], "2026-10-19T02:00:00Z")).toBe(true);
+    expect(isActiveAt([LUNCH], "2026-10-19T04:59:00Z")).toBe(true);
+    expect(isActiveAt([LUNCH], "2026-10-19T05:00:00Z")).toBe(false);
+  });
+
+  it("uses the weekday in the schedule time zone", () => {
+    // Friday 12:00 and Saturday 12:00 in Tokyo
+    expect(isActiveAt([LUNCH], "2026-10-23T03:00:00Z")).toBe(true);
+    expect(isActiveAt([LUNCH], "2026-10-24T03:00:00Z")).toBe(false);
+    // Friday 23:30 UTC is already Saturday in Tokyo
+    expect(isActiveAt([LUNCH], "2026-10-23T23:30:00Z")).toBe(false);
+  });
+
+  it("applies the latest due change before the windows", () => {
+    const changes = [
+      schedule({ id: 2, kind: "change", price: new Prisma.Decimal(600) }),
+      schedule({ id: 3, kind: "change", price: new Prisma.Decimal(650) }),
+      schedule({ id: 4, kind: "change", status: false }),
+    ];
+
+    expect(
+      resolveSchedules(ITEM, [...changes, LUNCH], new Date("2026-10-19T02:00Z"))
+    ).toEqual({ price: 650, isActive: false });
+  });
+
+  it("needs both an HQ window and a store window for store items", () => {
+    // Store sells it Monday and Tuesday 13:00-15:00
+    const storeWindow = schedule({
+      id: 5,
+      store_id: "store-1",
+      days: [1, 2],
+      start_minute: 13 * 60,
+      end_minute: 15 * 60,
+    });
+    const windows = [LUNCH, storeWindow];
+
+    // Monday 12:00, 13:30 and 14:30 in Tokyo
+    expect(isActiveAt(windows, "2026-10-19T03:00:00Z")).toBe(false);
+    expect(isActiveAt(windows, "2026-10-19T04:30:00Z")).toBe(true);
+    expect(isActiveAt(windows, "2026-10-19T05:30:00Z")).toBe(false);
+  });
+});
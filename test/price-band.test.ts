@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { createTranslator } from "@/lib/i18n";
+import {
+  checkStorePrice,
+  toPriceRange,
+  toStorePricing,
+  type StorePricing,
+} from "@/lib/price-band";
+import { Prisma, type PriceBand } from "@prisma/client";
+
+const t = createTranslator("en");
+
+const band = (
+  limits: { min?: number; max?: number; percent?: number },
+  owner: Partial<PriceBand> = { menu_id: 1 }
+): PriceBand => ({
+  id: 1,
+  menu_id: null,
+  group_id: null,
+  min_price: limits.min === undefined ? null : new Prisma.Decimal(limits.min),
+  max_price: limits.max === undefined ? null : new Prisma.Decimal(limits.max),
+  percent:
+    limits.percent === undefined ? null : new Prisma.Decimal(limits.percent),
+  updated_by: "00000000-0000-4000-8000-000000000001",
+  created_at: new Date("2026-01-01T00:00:00Z"),
+  updated_at: new Date("2026-01-01T00:00:00Z"),
+  ...owner,
+});
+
+const check = (price: number, pricing: StorePricing) =>
+  checkStorePrice(t, "price", price, pricing);
+
+describe("toPriceRange", () => {
+  it("rounds a percentage band inwards to whole cents", () => {
+    // 99.99 * 0.967 = 96.69033 and 99.99 * 1.033 = 103.28967
+    expect(
+      toPriceRange(band({ percent: 3.3 }), new Prisma.Decimal("99.99"))
+    ).toEqual({ min: 96.7, max: 103.28 });
+  });
+
+  it("keeps the tighter of fixed and percentage limits", () => {
+    expect(
+      toPriceRange(
+        band({ min: 950, max: 1200, percent: 10 }),
+        new Prisma.Decimal(1000)
+      )
+    ).toEqual({ min: 950, max: 1100 });
+  });
+
+  it("leaves missing limits open", () => {
+    expect(toPriceRange(band({ min: 900 }), new Prisma.Decimal(1000))).toEqual({
+      min: 900,
+      max: null,
+    });
+  });
+});
+
+describe("checkStorePrice", () => {
+  it("accepts prices on the boundaries and rejects one yen outside", () => {
+    const pricing = toStorePricing(1000, band({ min: 900, max: 1100 }), null);
+
+    expect(check(900, pricing)).toBeNull();
+    expect(check(1100, pricing)).toBeNull();
+    expect(check(899, pricing)).toEqual({
+      field: "price",
+      message: "Price must be between 900 and 1100",
+    });
+    expect(check(1101, pricing)).toEqual({
+      field: "price",
+      message: "Price must be between 900 and 1100",
+    });
+  });
+
+  it("checks against the rounded percentage limits", () => {
+    const pricing = toStorePricing(99.99, band({ percent: 3.3 }), null);
+
+    expect(check(96.7, pricing)).toBeNull();
+    expect(check(96.69, pricing)).not.toBeNull();
+    expect(check(103.28, pricing)).toBeNull();
+    expect(check(103.29, pricing)).not.toBeNull();
+  });
+
+  it("accepts any price when no band applies", () => {
+    expect(check(1, toStorePricing(1000, null, null))).toBeNull();
+  });
+});
+
+describe("toStorePricing", () => {
+  const groupBand = band({ percent: 5 }, { group_id: "group-1" });
+
+  it("uses the item band over the group band", () => {
+    expect(
+      toStorePricing(1000, band({ min: 800, max: 1000 }), groupBand)
+    ).toEqual({ hqPrice: 1000, allowedRange: { min: 800, max: 1000 } });
+  });
+
+  it("falls back to the group band", () => {
+    expect(toStorePricing(1000, null, groupBand)).toEqual({
+      hqPrice: 1000,
+      allowedRange: { min: 950, max: 1050 },
+    });
+  });
+});
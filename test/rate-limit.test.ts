@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createMemoryRateLimitStore,
+  createRateLimiter,
+  RATE_LIMIT_RETENTION_MS,
+  type RateLimitStore,
+} from "@/lib/rate-limit";
+
+const POLICY = {
+  freeHits: 3,
+  windowMs: 60 * 1000,
+  baseDelayMs: 1000,
+  lockoutHits: 6,
+  lockoutMs: 10 * 60 * 1000,
+};
+
+let store: RateLimitStore;
+
+const repeat = async <T>(times: number, attempt: () => Promise<T>) => {
+  const results: T[] = [];
+  for (let i = 0; i < times; i++) {
+    results.push(await attempt());
+  }
+  return results;
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+  store = createMemoryRateLimitStore();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("createRateLimiter", () => {
+  it("allows the free hits and then doubles the delay", async () => {
+    const limiter = createRateLimiter(POLICY, store);
+
+    const results = await repeat(4, () => limiter.hit("key"));
+
+    expect(results).toEqual([
+      { allowed: true },
+      { allowed: true },
+      { allowed: true },
+      { allowed: false, retryAfterSeconds: 1 },
+    ]);
+    expect(await limiter.hit("key")).toEqual({
+      allowed: false,
+      retryAfterSeconds: 2,
+    });
+  });
+
+  it("locks the key out after lockoutHits", async () => {
+    const limiter = createRateLimiter(POLICY, store);
+
+    const results = await repeat(6, () => limiter.hit("key"));
+
+    expect(results.at(-1)).toEqual({
+      allowed: false,
+      retryAfterSeconds: 600,
+    });
+    vi.advanceTimersByTime(599 * 1000);
+    expect(await limiter.check("key")).toEqual({
+      allowed: false,
+      retryAfterSeconds: 1,
+    });
+    vi.advanceTimersByTime(1000);
+    expect(await limiter.check("key")).toEqual({ allowed: true });
+  });
+
+  it("refuses attempts once an earlier attempt blocked the key", async () => {
+    const limiter = createRateLimiter(POLICY, store);
+
+    const results = await repeat(5, () => limiter.consume("key"));
+
+    // The fourth attempt goes over the allowance and blocks the fifth
+    expect(results.slice(0, 4)).toEqual(Array(4).fill({ allowed: true }));
+    expect(results[4]).toEqual({ allowed: false, retryAfterSeconds: 1 });
+  });
+
+  it("does not count refunded attempts", async () => {
+    const limiter = createRateLimiter(POLICY, store);
+
+    await repeat(3, async () => {
+      await limiter.consume("key");
+      await limiter.refund("key");
+    });
+    const results = await repeat(4, () => limiter.consume("key"));
+
+    expect(results).toEqual(Array(4).fill({ allowed: true }));
+    expect(await store.get("key")).toMatchObject({ count: 4 });
+  });
+
+  it("clears counts and blocks on reset", async () => {
+    const limiter = createRateLimiter(POLICY, store);
+    await repeat(6, () => limiter.hit("key"));
+
+    await limiter.reset("key");
+
+    expect(await limiter.check("key")).toEqual({ allowed: true });
+    expect(await store.get("key")).toBeNull();
+  });
+
+  it("starts a new window but keeps the block", async () => {
+    const limiter = createRateLimiter(POLICY, store);
+    await repeat(6, () => limiter.hit("key"));
+
+    vi.advanceTimersByTime(POLICY.windowMs);
+    const result = await limiter.hit("key");
+
+    expect(result).toEqual({
+      allowed: false,
+      retryAfterSeconds: (POLICY.lockoutMs - POLICY.windowMs) / 1000,
+    });
+    expect(await store.get("key")).toMatchObject({ count: 1 });
+  });
+
+  it("deletes entries that have gone quiet", async () => {
+    const limiter = createRateLimiter(POLICY, store);
+    await limiter.hit("quiet");
+
+    vi.advanceTimersByTime(RATE_LIMIT_RETENTION_MS + 1);
+    await limiter.hit("active");
+
+    expect(await store.get("quiet")).toBeNull();
+    expect(await store.get("active")).toMatchObject({ count: 1 });
+  });
+});
+
+describe("createMemoryRateLimitStore", () => {
+  it("keeps blocked entries when pruning", async () => {
+    const now = Date.now();
+    await store.increment("blocked", POLICY.windowMs, now);
+    await store.block("blocked", now + 2 * RATE_LIMIT_RETENTION_MS);
+    await store.increment("quiet", POLICY.windowMs, now);
+
+    await store.prune(now + 1, now + RATE_LIMIT_RETENTION_MS);
+
+    expect(await store.get("blocked")).not.toBeNull();
+    expect(await store.get("quiet")).toBeNull();
+  });
+});
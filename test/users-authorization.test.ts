@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { DELETE } from "@/app/api/users/[userId]/route";
+import { GET } from "@/app/api/users/route";
+import {
+  ADMIN,
+  OTHER_STORE,
+  PROFILES,
+  routeContext,
+  STORE,
+} from "./helpers/fixtures";
+import { resetSupabase, state, supabaseAdmin } from "./helpers/supabase";
+
+vi.mock(
+  "@/lib/supabase",
+  async () => (await import("./helpers/supabase")).supabaseModule
+);
+vi.mock(
+  "@supabase/auth-helpers-nextjs",
+  async () => (await import("./helpers/supabase")).authHelpersModule
+);
+vi.mock(
+  "next/headers",
+  async () => (await import("./helpers/supabase")).nextHeadersModule
+);
+
+const listUsers = () =>
+  GET(new Request("http://localhost/api/users"), routeContext({}));
+
+const deleteUser = (userId: string) =>
+  DELETE(
+    new Request(`http://localhost/api/users/${userId}`, { method: "DELETE" }),
+    routeContext({ userId })
+  );
+
+beforeEach(() => {
+  resetSupabase({ Profiles: PROFILES });
+});
+
+describe("GET /api/users", () => {
+  it("rejects anonymous callers", async () => {
+    const response = await listUsers();
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ code: "AUTH_REQUIRED" });
+  });
+
+  it("rejects store users", async () => {
+    state.sessionUserId = STORE.id;
+
+    const response = await listUsers();
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ code: "FORBIDDEN" });
+  });
+
+  it("lists profiles for admins", async () => {
+    state.sessionUserId = ADMIN.id;
+
+    const response = await listUsers();
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      data: { total: PROFILES.length },
+    });
+  });
+});
+
+describe("DELETE /api/users/[userId]", () => {
+  it("rejects anonymous callers", async () => {
+    const response = await deleteUser(OTHER_STORE.id);
+
+    expect(response.status).toBe(401);
+    expect(supabaseAdmin.auth.admin.deleteUser).not.toHaveBeenCalled();
+  });
+
+  it("rejects store users", async () => {
+    state.sessionUserId = STORE.id;
+
+    const response = await deleteUser(OTHER_STORE.id);
+
+    expect(response.status).toBe(403);
+    expect(supabaseAdmin.auth.admin.deleteUser).not.toHaveBeenCalled();
+  });
+
+  it("lets admins delete store users and records who did it", async () => {
+    state.sessionUserId = ADMIN.id;
+
+    const response = await deleteUser(OTHER_STORE.id);
+
+    expect(response.status).toBe(200);
+    expect(supabaseAdmin.auth.admin.deleteUser).toHaveBeenCalledWith(
+      OTHER_STORE.id
+    );
+    expect(state.tables.AuditLog).toEqual([
+      expect.objectContaining({
+        actor_id: ADMIN.id,
+        action: "user.delete",
+        target_id: OTHER_STORE.id,
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PATCH } from "@/app/api/users/[userId]/route";
+import { ADMIN, PROFILES, routeContext, STORE } from "./helpers/fixtures";
+import { resetSupabase, state, supabaseAdmin } from "./helpers/supabase";
+
+vi.mock(
+  "@/lib/supabase",
+  async () => (await import("./helpers/supabase")).supabaseModule
+);
+vi.mock(
+  "@supabase/auth-helpers-nextjs",
+  async () => (await import("./helpers/supabase")).authHelpersModule
+);
+vi.mock(
+  "next/headers",
+  async () => (await import("./helpers/supabase")).nextHeadersModule
+);
+
+const patchUser = (userId: string, body: unknown) =>
+  PATCH(
+    new Request(`http://localhost/api/users/${userId}`, {
+      method: "PATCH",
+      body: JSON.stringify(body),
+    }),
+    routeContext({ userId })
+  );
+
+const storedProfile = (userId: string) =>
+  state.tables.Profiles.find((profile) => profile.id === userId);
+
+beforeEach(() => {
+  resetSupabase({ Profiles: PROFILES });
+  state.sessionUserId = ADMIN.id;
+});
+
+describe("PATCH /api/users/[userId]", () => {
+  it("keeps the store name when only the password changes", async () => {
+    const response = await patchUser(STORE.id, {
+      password: "Correct-Horse-42",
+    });
+
+    expect(response.status).toBe(200);
+    expect(storedProfile(STORE.id)).toEqual(STORE);
+    expect(supabaseAdmin.auth.admin.updateUserById).toHaveBeenCalledWith(
+      STORE.id,
+      { password: "Correct-Horse-42" }
+    );
+  });
+
+  it("keeps the store name when only the email changes", async () => {
+    const response = await patchUser(STORE.id, {
+      email: "shibuya@example.com",
+    });
+
+    expect(response.status).toBe(200);
+    expect(storedProfile(STORE.id)).toEqual({
+      ...STORE,
+      email: "shibuya@example.com",
+    });
+  });
+
+  it("clears the store name when a store becomes a group manager", async () => {
+    const response = await patchUser(STORE.id, { role: "group_manager" });
+
+    expect(response.status).toBe(200);
+    expect(storedProfile(STORE.id)).toMatchObject({
+      role: "group_manager",
+      store_name: null,
+    });
+    expect(supabaseAdmin.auth.admin.updateUserById).toHaveBeenCalledWith(
+      STORE.id,
+      {
+        user_metadata: {
+          company_code: STORE.company_code,
+          role: "group_manager",
+          store_name: null,
+          group_id: null,
+        },
+      }
+    );
+  });
+});
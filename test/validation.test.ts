@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { passwordSchema } from "@/lib/password-policy";
+import { priceBandSchema } from "@/lib/price-band";
+import { validateBody, validateQuery } from "@/lib/validation";
+import { z } from "zod";
+
+const postJson = (body: unknown, lang: string) =>
+  new Request(`http://localhost/api/test?lang=${lang}`, {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+
+const fieldErrors = async (
+  schema: z.ZodTypeAny,
+  body: unknown,
+  lang: string
+) => {
+  const result = await validateBody(postJson(body, lang), schema);
+  if (result.success) {
+    throw new Error("Expected validation to fail");
+  }
+  return (await result.response.json()).details;
+};
+
+describe("validateBody", () => {
+  it("translates schema messages into the request locale", async () => {
+    const schema = z.object({ password: passwordSchema });
+
+    expect(await fieldErrors(schema, { password: "Abc1!" }, "ja")).toEqual([
+      { field: "password", message: "パスワードは10文字以上にしてください" },
+    ]);
+    expect(await fieldErrors(schema, { password: "Abc1!" }, "en")).toEqual([
+      { field: "password", message: "Password must be at least 10 characters" },
+    ]);
+  });
+
+  it("translates refinements on the whole body", async () => {
+    expect(await fieldErrors(priceBandSchema, {}, "ja")).toEqual([
+      {
+        field: "(root)",
+        message: "min、max、percent のいずれかを指定してください",
+      },
+    ]);
+  });
+
+  it("translates zod's built-in messages", async () => {
+    const schema = z.object({
+      name: z.string().min(1),
+      role: z.enum(["admin", "store"]),
+      groupId: z.string().uuid(),
+      price: z.number().positive(),
+    });
+    const body = { name: "", role: "owner", groupId: "x", price: "100" };
+
+    expect(await fieldErrors(schema, body, "ja")).toEqual([
+      { field: "name", message: "空にはできません" },
+      {
+        field: "role",
+        message: "次のいずれかを指定してください: admin, store",
+      },
+      { field: "groupId", message: "UUID の形式が正しくありません" },
+      { field: "price", message: "number 型の値を指定してください" },
+    ]);
+    expect(await fieldErrors(schema, {}, "en")).toEqual([
+      { field: "name", message: "Required" },
+      { field: "role", message: "Required" },
+      { field: "groupId", message: "Required" },
+      { field: "price", message: "Required" },
+    ]);
+  });
+});
+
+describe("validateQuery", () => {
+  it("translates zod's built-in messages", async () => {
+    const schema = z.object({ limit: z.coerce.number().int().max(100) });
+    const request = new Request("http://localhost/api/test?lang=ja&limit=500");
+
+    const result = validateQuery(request, schema);
+
+    expect(result.success).toBe(false);
+    expect(!result.success && (await result.response.json()).details).toEqual([
+      { field: "limit", message: "100以下の値を指定してください" },
+    ]);
+  });
+});
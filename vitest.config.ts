@@ -0,0 +1,23 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+const root = fileURLToPath(new URL(".", import.meta.url));
+
+// Tests run against an in-memory Supabase client (test/helpers), so these
+// values only have to be present, not valid
+export default defineConfig({
+  resolve: {
+    alias: [{ find: /^@\//, replacement: root }],
+  },
+  test: {
+    environment: "node",
+    include: ["test/**/*.test.ts"],
+    env: {
+      NEXT_PUBLIC_SUPABASE_URL: "http://localhost:54321",
+      NEXT_PUBLIC_SUPABASE_ANON_KEY: "test-anon-key",
+      SUPABASE_SERVICE_ROLE_KEY: "test-service-role-key",
+      SUPABASE_JWT_SECRET: "test-jwt-secret-with-at-least-32-characters",
+      RATE_LIMIT_STORE: "memory",
+    },
+  },
+});